@@ -6,57 +6,324 @@ import * as fs from 'fs';
 // --- Constants ---
 const VIEW_ID = 'custom-explorer-view';
 const STORAGE_KEY = 'customExplorerData';
+const LAYOUTS_STORAGE_KEY = 'customExplorerLayouts';
+const RECENT_STORAGE_KEY = 'customExplorerRecentFiles';
+// 読み込めなかった保存データの退避先
+const BACKUP_STORAGE_KEY = 'customExplorerLayoutsBackup';
+// workspaceState に保存する形式のバージョン。形式を変えたら LayoutStorage の MIGRATIONS に移行処理を追加する
+const STORAGE_SCHEMA_VERSION = 2;
+const DEFAULT_LAYOUT_NAME = 'Default';
 const CONTEXT_KEY_IS_EMPTY = 'customExplorer.isEmpty';
+const CONTEXT_KEY_FILTER_ACTIVE = 'customExplorer.filterActive';
+const CONTEXT_KEY_CAN_UNDO = 'customExplorer.canUndo';
+const CONTEXT_KEY_CAN_REDO = 'customExplorer.canRedo';
+const CONTEXT_KEY_CAN_PASTE = 'customExplorer.canPaste';
+const HISTORY_LIMIT = 50;
 const MIME_INTERNAL = 'application/vnd.code.tree.customExplorer';
 const URI_SCHEME = 'custom-explorer';
+const BULK_RENAME_SCHEME = 'custom-explorer-rename';
+const BULK_RENAME_FILE_NAME = '一括名前変更.txt';
 const DEFAULT_GROUP_NAME = 'New Group';
-
-// 診断レベルに対応するデコレーション定義（起動時に1度だけ生成）
-// SEVERITY_DECORATION: file-ref 自身の診断バッジ
-const SEVERITY_DECORATION = {
-    error: {
-        badge: '●',
-        color: new vscode.ThemeColor('list.errorForeground'),
-        tooltip: 'Errors detected',
-    },
-    warning: {
-        badge: '●',
-        color: new vscode.ThemeColor('list.warningForeground'),
-        tooltip: 'Warnings detected',
-    },
+const DEFAULT_DEFINITION_FILE = '.vscode/custom-explorer.json';
+const DEFINITION_FILE_VERSION = 2;
+const QUERY_GROUP_MAX_RESULTS = 2000;
+const QUERY_REFRESH_DELAY_MS = 300;
+const FOLDER_SYNC_DELAY_MS = 300;
+const MISSING_CHECK_DELAY_MS = 500;
+// 参照切れの確認で同時に問い合わせるパスの数
+const MISSING_CHECK_BATCH_SIZE = 64;
+const RELINK_MAX_CANDIDATES = 50;
+const SYMBOL_RESOLVE_DELAY_MS = 1000;
+// メモのあるノードの説明の先頭に付ける印
+const NOTE_INDICATOR = '✎';
+
+// vscode.git の Status 列挙値のうち参照するもの
+const GIT_STATUS = {
+    INDEX_DELETED: 2,
+    DELETED: 6,
+    UNTRACKED: 7,
 } as const;
 
-// GROUP_SEVERITY_DECORATION: group / folder-ref が子孫に持つ診断の集約バッジ
-const GROUP_SEVERITY_DECORATION = {
-    error: {
-        badge: '●',
-        color: new vscode.ThemeColor('list.errorForeground'),
-        tooltip: 'Error in children',
-    },
-    warning: {
-        badge: '●',
-        color: new vscode.ThemeColor('list.warningForeground'),
-        tooltip: 'Warning in children',
-    },
+// ライブセクションはルートのこの順に表示する
+const LIVE_SECTIONS: Record<LiveSectionKind, { label: string; icon: string; setting: string }> = {
+    'open-editors': { label: '開いているエディター', icon: 'files', setting: 'openEditors' },
+    recent: { label: '最近使用したファイル', icon: 'history', setting: 'recent' },
+};
+
+// グループ単位の並べ替え順序。'inherit' は親（ルートでは explorer.sortOrder）に従う
+const SORT_MODES: Record<GroupSortMode, { label: string; description: string }> = {
+    inherit: { label: '親に従う', description: '親グループ（ルートでは explorer.sortOrder）と同じ順序' },
+    name: { label: '名前順', description: 'グループ優先で名前の自然順' },
+    type: { label: '種類順', description: '拡張子順、同じ拡張子内は名前順' },
+    modified: { label: '更新日時順', description: '更新日時の新しい順' },
+    manual: { label: '手動', description: 'ドラッグ＆ドロップで並べた順序を保持' },
+};
+
+const ACTION_KINDS: Record<ActionKind, { label: string; icon: string; description: string }> = {
+    command: { label: 'コマンド', icon: 'play', description: 'VS Code のコマンドを引数付きで実行' },
+    task: { label: 'タスク', icon: 'tools', description: 'tasks.json のタスクを実行' },
+    launch: { label: 'デバッグ構成', icon: 'debug-alt', description: 'launch.json の構成でデバッグを開始' },
+    url: { label: 'URL / ドキュメント', icon: 'link-external', description: '外部 URL またはローカルのドキュメントを開く' },
+};
+
+// 「外観...」で選べるアイコンと色（一覧にないものは名前・ID を直接入力できる）
+const APPEARANCE_ICONS = [
+    'folder', 'star-full', 'heart', 'flame', 'rocket', 'zap', 'bookmark', 'pin', 'tag', 'book',
+    'beaker', 'bug', 'tools', 'gear', 'package', 'archive', 'database', 'server', 'cloud', 'globe',
+    'lock', 'key', 'shield', 'eye', 'code', 'terminal', 'symbol-class', 'symbol-interface', 'file-media', 'note',
+];
+
+const APPEARANCE_COLORS: { id: string; label: string }[] = [
+    { id: 'charts.red', label: '赤' },
+    { id: 'charts.orange', label: 'オレンジ' },
+    { id: 'charts.yellow', label: '黄' },
+    { id: 'charts.green', label: '緑' },
+    { id: 'charts.blue', label: '青' },
+    { id: 'charts.purple', label: '紫' },
+    { id: 'descriptionForeground', label: 'グレー' },
+];
+
+const GIT_GROUP_KINDS: Record<GitGroupKind, { label: string; icon: string; description: string }> = {
+    changes: { label: 'Changes', icon: 'diff-modified', description: '作業ツリーの変更' },
+    staged: { label: 'Staged', icon: 'diff-added', description: 'ステージ済みの変更' },
+    untracked: { label: 'Untracked', icon: 'question', description: '追跡されていないファイル' },
+    diff: { label: 'Changed vs', icon: 'git-compare', description: '指定した ref との差分' },
+};
+
+// 診断レベルごとの表示定義（重大な順。バッジには最も重大なレベルの件数を表示する）
+// color: バッジとラベルの色 / icon: 「グループ内の問題を表示」での codicon / name: ツールチップでの呼び名
+const PROBLEM_SEVERITIES: Record<ProblemSeverity, {
+    severity: vscode.DiagnosticSeverity;
+    color?: vscode.ThemeColor;
+    icon: string;
+    name: string;
+}> = {
+    error: { severity: vscode.DiagnosticSeverity.Error, color: new vscode.ThemeColor('list.errorForeground'), icon: 'error', name: 'error' },
+    warning: { severity: vscode.DiagnosticSeverity.Warning, color: new vscode.ThemeColor('list.warningForeground'), icon: 'warning', name: 'warning' },
+    information: { severity: vscode.DiagnosticSeverity.Information, icon: 'info', name: 'info' },
+    hint: { severity: vscode.DiagnosticSeverity.Hint, icon: 'lightbulb', name: 'hint' },
+};
+
+// file-ref 自身のバッジに件数を出すレベル（ヒントはツールチップの内訳にのみ含める）
+const FILE_BADGE_SEVERITIES: ProblemSeverity[] = ['error', 'warning', 'information'];
+const DEFAULT_PROPAGATED_SEVERITIES: ProblemSeverity[] = ['error', 'warning'];
+
+// MISSING_DECORATION: 参照先が見つからない file-ref / folder-ref
+const MISSING_DECORATION = {
+    badge: '!',
+    color: new vscode.ThemeColor('gitDecoration.deletedResourceForeground'),
+    tooltip: 'Target not found',
 } as const;
 
 // --- Interfaces ---
 interface StoredNode {
     id: string;
     label: string;
-    type: 'group' | 'file-ref' | 'folder-ref';
+    type: 'group' | 'file-ref' | 'folder-ref' | 'location-ref' | 'symbol-ref' | 'action' | 'query-group' | 'git-group' | 'live-section';
     children?: StoredNode[];
     filePath?: string;
     linkedPath?: string;
+    // filePath / linkedPath をワークスペースフォルダー名と相対パス('/'区切り)の組でも保持し、
+    // フォルダーの移動やマルチルートでの再追加後に絶対パスを復元できるようにする
+    workspaceFolder?: string;
+    relativePath?: string;
+    // query-group の検索条件（スコープフォルダーは linkedPath に保持する）
+    query?: GlobQuery;
+    // git-group が一覧する変更の種類
+    git?: GitQuery;
+    // location-ref が指す filePath 内の範囲（symbol-ref では最後に解決できたシンボルの範囲）
+    range?: LocationRange;
+    // symbol-ref が指すシンボル
+    symbol?: SymbolQuery;
+    // action ノードがクリック時に実行する内容
+    action?: ActionSpec;
+    // action を共有定義ファイルやインポートした JSON から読み込んだ（他人が書いた内容のため、実行前に必ず確認する）
+    external?: boolean;
+    // 表示名・説明・アイコン・色の上書き（実ファイル名やノードの名前は変えない）
+    appearance?: NodeAppearance;
+    // Markdown のメモ（ツールチップに表示する）
+    note?: string;
+    // 子の並べ替え順序（未設定は 'inherit'）
+    sortMode?: GroupSortMode;
     collapsibleState?: vscode.TreeItemCollapsibleState;
+    // folder-ref の配下で展開しているディレクトリ（folder-ref からの相対パス、'/' 区切り）
+    expandedDirs?: string[];
+}
+
+// 0 始まりの行・桁で表した範囲（vscode.Range をそのまま保存できないため）
+interface LocationRange {
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+}
+
+// シンボルは名前・種類・親シンボルの名前の並びで特定する（位置は編集で変わるため使わない）
+interface SymbolQuery {
+    name: string;
+    kind: vscode.SymbolKind;
+    containerPath: string[];
+}
+
+// executeDocumentSymbolProvider の結果を階層をたどって平坦化したもの
+interface DocumentSymbolEntry extends SymbolQuery {
+    range: vscode.Range;
+    selectionRange: vscode.Range;
+}
+
+interface NodeAppearance {
+    alias?: string;
+    description?: string;
+    // codicon 名と ThemeColor の ID（file-ref 以外のノードのみ）
+    icon?: string;
+    color?: string;
+}
+
+type ActionKind = 'command' | 'task' | 'launch' | 'url';
+
+interface ActionSpec {
+    kind: ActionKind;
+    // command: コマンドID / task: タスク名 / launch: デバッグ構成名 / url: URL またはワークスペースからの相対パス
+    target: string;
+    // command に渡す引数
+    args?: unknown[];
+    // codicon 名（未設定は種類ごとの既定アイコン）
+    icon?: string;
+    // 実行前に確認する
+    confirm?: boolean;
+}
+
+interface GlobQuery {
+    include: string[];
+    exclude: string[];
+}
+
+type GitGroupKind = 'changes' | 'staged' | 'untracked' | 'diff';
+
+type LiveSectionKind = 'open-editors' | 'recent';
+
+type ProblemSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+type ProblemCounts = Record<ProblemSeverity, number>;
+
+type GroupSortMode = 'inherit' | 'name' | 'type' | 'modified' | 'manual';
+
+interface GitQuery {
+    kind: GitGroupKind;
+    // kind が 'diff' のときの比較対象 (例: origin/main)
+    ref?: string;
 }
 
 interface ExplorerNode extends StoredNode {
     children?: ExplorerNode[];
     cachedTreePath?: string;
+    // 所属するワークスペースフォルダーが現在開かれていない
+    orphaned?: boolean;
+    // 参照先のファイル・フォルダーが存在しない (VS Code 外での削除・移動など)
+    missing?: boolean;
+    // symbol-ref のシンボルがファイル内に見つからない
+    unresolved?: boolean;
+    // 動的グループ (query-group 等) が生成した読み取り専用の子。保存・移動・削除の対象外
+    dynamicChild?: boolean;
+    // 動的グループの子を取得できなかった理由 (存在しない ref など)
+    dynamicError?: string;
+    // ルートに常設されるライブセクションの種類 (type が 'live-section' のときのみ)
+    liveKind?: LiveSectionKind;
     transientKind?: 'new-file' | 'new-folder';
 }
 
+// 親へのリンク。siblings は登録時の兄弟配列で、親の children が差し替えられていればリンクは無効とみなす
+interface ParentLink {
+    parent?: ExplorerNode;
+    siblings: ExplorerNode[];
+}
+
+// ノードをインデックスに登録したときのキー（付け直し・取り外し時に古いキーを取り除くため）
+interface IndexEntry {
+    id: string;
+    type: ExplorerNode['type'];
+    treePath: string;
+    fsPath?: string;
+    // location-ref / symbol-ref の参照先ファイル
+    rangePath?: string;
+    uris: string[];
+    isLive: boolean;
+    children: ExplorerNode[];
+}
+
+// 共有定義ファイル上の表現（パスはワークスペースフォルダーからの相対パス、IDは保存しない）
+interface SharedNode {
+    type: StoredNode['type'];
+    label?: string;
+    // 最初のワークスペースフォルダー以外に属する場合のみフォルダー名を保存する
+    folder?: string;
+    path?: string;
+    query?: GlobQuery;
+    git?: GitQuery;
+    range?: LocationRange;
+    symbol?: SymbolQuery;
+    action?: ActionSpec;
+    appearance?: NodeAppearance;
+    note?: string;
+    sort?: GroupSortMode;
+    children?: SharedNode[];
+}
+
+// version 1 は単一ツリー (nodes)、version 2 以降は名前付きレイアウトの配列 (layouts)
+interface SharedDefinition {
+    version: number;
+    nodes?: SharedNode[];
+    layouts?: { name: string; nodes: SharedNode[] }[];
+}
+
+// workspaceState に保存するレイアウト一覧（配列順がQuickPickでの表示順）
+interface StoredLayouts {
+    version: number;
+    active: string;
+    layouts: { name: string; nodes: StoredNode[] }[];
+}
+
+// 読み込めなかった保存データ（version は退避した時点の保存形式のバージョン）
+interface StorageBackup {
+    savedAt: string;
+    version: number;
+    data: unknown;
+}
+
+type CompareFn = (a: ExplorerNode, b: ExplorerNode) => number;
+
+// レイアウト名 → そのレイアウトのツリー
+type LayoutMap = Map<string, ExplorerNode[]>;
+
+// --- vscode.git 拡張 API（使用する部分のみ） ---
+interface GitExtension {
+    readonly enabled: boolean;
+    readonly onDidChangeEnablement: vscode.Event<boolean>;
+    getAPI(version: 1): GitAPI;
+}
+
+interface GitAPI {
+    readonly repositories: GitRepository[];
+    readonly onDidOpenRepository: vscode.Event<GitRepository>;
+    readonly onDidCloseRepository: vscode.Event<GitRepository>;
+}
+
+interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: {
+        readonly indexChanges: GitChange[];
+        readonly workingTreeChanges: GitChange[];
+        readonly untrackedChanges?: GitChange[];
+        readonly onDidChange: vscode.Event<void>;
+    };
+    diffWith(ref: string): Promise<GitChange[]>;
+}
+
+interface GitChange {
+    readonly uri: vscode.Uri;
+    readonly status: number;
+}
+
 type RuntimeTransientKind = NonNullable<ExplorerNode['transientKind']> | 'rename-file' | 'rename-folder';
 
 export function activate(context: vscode.ExtensionContext) {
@@ -68,9 +335,12 @@ export function activate(context: vscode.ExtensionContext) {
         canSelectMany: true,
     });
 
-    if (vscode.workspace.name) {
-        treeView.title = vscode.workspace.name;
-    }
+    // ワークスペース名の横にアクティブなレイアウト名を表示する
+    const updateTitle = () => {
+        const layoutName = treeDataProvider.getActiveLayout();
+        treeView.title = vscode.workspace.name ? `${vscode.workspace.name} · ${layoutName}` : layoutName;
+    };
+    updateTitle();
 
     const revealEditorInTree = async (
         editor: vscode.TextEditor | undefined,
@@ -90,7 +360,7 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        const foundNode = treeDataProvider.findNodeByPath(editor.document.uri.fsPath);
+        const foundNode = await treeDataProvider.resolveNodeByPath(editor.document.uri.fsPath);
         if (foundNode) {
             await treeView.reveal(foundNode, { select: true, focus: options.focus, expand: true });
         } else if (options.notify) {
@@ -106,39 +376,125 @@ export function activate(context: vscode.ExtensionContext) {
     };
 
     const revealNodeByPath = async (targetPath: string) => {
-        const foundNode = treeDataProvider.findNodeByPath(targetPath);
+        const foundNode = await treeDataProvider.resolveNodeByPath(targetPath);
         if (foundNode) {
             await treeView.reveal(foundNode, { select: true, focus: false, expand: true });
         }
     };
 
+    treeDataProvider.recordRecentFile(vscode.window.activeTextEditor?.document.uri);
     syncTreeSelection(vscode.window.activeTextEditor);
 
     const decorationProvider = new ProblemFileDecorationProvider(treeDataProvider);
+    const bulkRenameProvider = new BulkRenameFileSystemProvider();
+    const noteProvider = new NoteFileSystemProvider(treeDataProvider);
 
     // --- イベント購読 ---
     const eventSubscriptions = [
-        vscode.window.onDidChangeActiveTextEditor(editor => syncTreeSelection(editor)),
+        vscode.window.onDidChangeActiveTextEditor(editor => {
+            treeDataProvider.recordRecentFile(editor?.document.uri);
+            syncTreeSelection(editor);
+        }),
+        vscode.window.tabGroups.onDidChangeTabs(() => treeDataProvider.refreshLiveSection('open-editors')),
+        vscode.window.tabGroups.onDidChangeTabGroups(() => treeDataProvider.refreshLiveSection('open-editors')),
+        treeDataProvider.onDidChangeLayout(() => updateTitle()),
+        treeView.onDidExpandElement(e => treeDataProvider.updateCollapsibleState(e.element, vscode.TreeItemCollapsibleState.Expanded)),
+        treeView.onDidCollapseElement(e => treeDataProvider.updateCollapsibleState(e.element, vscode.TreeItemCollapsibleState.Collapsed)),
         vscode.window.registerFileDecorationProvider(decorationProvider),
+        vscode.workspace.registerFileSystemProvider(BULK_RENAME_SCHEME, bulkRenameProvider),
+        bulkRenameProvider,
+        vscode.workspace.registerFileSystemProvider(URI_SCHEME, noteProvider, { isCaseSensitive: true }),
+        noteProvider,
+        bulkRenameProvider.onDidRename(files => treeDataProvider.handleFileRename(files)),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === BULK_RENAME_SCHEME) {
+                bulkRenameProvider.close(document.uri);
+            }
+            noteProvider.close(document.uri);
+            treeDataProvider.handleDocumentClose(document);
+        }),
+        vscode.workspace.onDidChangeTextDocument(e => treeDataProvider.handleDocumentChange(e)),
+        vscode.workspace.onDidSaveTextDocument(document => treeDataProvider.handleDocumentSave(document)),
         vscode.languages.onDidChangeDiagnostics(e => decorationProvider.handleDiagnosticsChange(e.uris)),
+        treeDataProvider.onDidChangeDecorations(uris => decorationProvider.refreshDecorations(uris)),
+        vscode.window.onDidChangeWindowState(state => {
+            if (state.focused) {
+                treeDataProvider.scheduleMissingCheck();
+            }
+        }),
         vscode.workspace.onDidRenameFiles(e => treeDataProvider.handleFileRename(e.files)),
         vscode.workspace.onDidDeleteFiles(e => treeDataProvider.handleFileDelete(e.files)),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            treeDataProvider.handleWorkspaceFoldersChange();
+            updateTitle();
+        }),
         vscode.workspace.onDidChangeConfiguration(e => {
             if (e.affectsConfiguration('files.exclude')) treeDataProvider.refresh();
             if (
                 e.affectsConfiguration('explorer.sortOrder') ||
                 e.affectsConfiguration('explorer.sortOrderLexicographicOptions')
             ) treeDataProvider.saveAndRefresh();
+            if (e.affectsConfiguration('customExplorer.definitionFile')) {
+                treeDataProvider.resetDefinitionFile();
+            }
+            if (e.affectsConfiguration('customExplorer.liveSections')) {
+                treeDataProvider.refreshLiveSections();
+            }
+            if (e.affectsConfiguration('customExplorer.problems')) {
+                decorationProvider.reloadConfiguration();
+            }
         }),
-        { dispose: () => treeDataProvider.disposeAllWatchers() },
+        { dispose: () => treeDataProvider.dispose() },
     ];
 
     // --- 汎用コマンド実行ラッパー ---
-    const executeStandardCommand = (builtinCommandId: string) => async (node: ExplorerNode) => {
-        const fsPath = treeDataProvider.resolveFsPath(node);
-        if (fsPath) {
-            await vscode.commands.executeCommand(builtinCommandId, vscode.Uri.file(fsPath));
+    // コマンドの (node, nodes) 引数から対象ノードを決める。キーボードから呼ばれた場合は選択中のノード
+    const resolveTargets = (node?: ExplorerNode, nodes?: readonly ExplorerNode[]): readonly ExplorerNode[] =>
+        nodes?.length ? nodes : node ? [node] : treeView.selection;
+
+    const resolveTargetPaths = (node?: ExplorerNode, nodes?: readonly ExplorerNode[]): string[] =>
+        Array.from(new Set(resolveTargets(node, nodes)
+            .map(target => treeDataProvider.resolveFsPath(target))
+            .filter((fsPath): fsPath is string => fsPath !== undefined)));
+
+    const executeStandardCommand = (builtinCommandId: string, { single = false } = {}) =>
+        async (node?: ExplorerNode, nodes?: ExplorerNode[]) => {
+            const fsPaths = resolveTargetPaths(node, nodes);
+            for (const fsPath of single ? fsPaths.slice(0, 1) : fsPaths) {
+                await vscode.commands.executeCommand(builtinCommandId, vscode.Uri.file(fsPath));
+            }
+        };
+
+    const openToSide = async (node?: ExplorerNode, nodes?: ExplorerNode[]) => {
+        const fsPaths = resolveTargetPaths(node, nodes).filter(fsPath => !fs.statSync(fsPath, { throwIfNoEntry: false })?.isDirectory());
+        for (const fsPath of fsPaths) {
+            // ファイルを現在のエディタの「横（Beside）」に開く（複数選択時はすべて開いたままにする）
+            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(fsPath), {
+                viewColumn: vscode.ViewColumn.Beside,
+                preview: fsPaths.length === 1 ? undefined : false,
+            });
+        }
+    };
+
+    // 組み込みの copyRelativeFilePath と異なり、マルチルートでも所属フォルダーからの相対パスを返す
+    const toRelativePath = (fsPath: string): string => {
+        const location = treeDataProvider.getWorkspaceLocation(fsPath);
+        if (!location) {
+            return fsPath;
         }
+
+        const separatorSetting = vscode.workspace.getConfiguration('explorer').get<string>('copyRelativePathSeparator');
+        const separator = separatorSetting === '/' || separatorSetting === '\\' ? separatorSetting : path.sep;
+        return location.relativePath.split('/').join(separator);
+    };
+
+    // 複数選択時は改行区切りでコピーする
+    const copyPaths = async (node: ExplorerNode | undefined, nodes: ExplorerNode[] | undefined, relative: boolean) => {
+        const fsPaths = resolveTargetPaths(node, nodes);
+        if (fsPaths.length === 0) {
+            return;
+        }
+        await vscode.env.clipboard.writeText(fsPaths.map(fsPath => relative ? toRelativePath(fsPath) : fsPath).join('\n'));
     };
 
     const getCreationTargetDir = async (node: ExplorerNode): Promise<string | undefined> => {
@@ -276,7 +632,7 @@ export function activate(context: vscode.ExtensionContext) {
                 }
 
                 treeDataProvider.cancelInlineCreation();
-                treeDataProvider.syncFolderRefAncestor(node);
+                await treeDataProvider.syncDirectories([targetDir]);
                 await revealNodeByPath(targetPath);
                 input.hide();
 
@@ -303,17 +659,19 @@ export function activate(context: vscode.ExtensionContext) {
     };
 
     const startInlineGroupRename = async (node: ExplorerNode) => {
-        if (node.type !== 'group') {
+        const isLeaf = treeDataProvider.isRangeRef(node) || node.type === 'action';
+        if (node.type !== 'group' && node.type !== 'query-group' && !isLeaf) {
             return;
         }
 
-        const pendingNode = treeDataProvider.beginInlineRename(node, 'folder');
+        const pendingNode = treeDataProvider.beginInlineRename(node, isLeaf ? 'file' : 'folder');
         await treeView.reveal(pendingNode, { select: true, focus: false, expand: true });
 
         const input = vscode.window.createInputBox();
         let accepted = false;
         input.ignoreFocusOut = true;
-        input.title = 'グループ名の変更';
+        input.title = node.type === 'action' ? 'アクション名の変更'
+            : treeDataProvider.isRangeRef(node) ? 'ブックマーク名の変更' : 'グループ名の変更';
         input.prompt = '新しい名前を入力してください';
         input.value = node.label;
         input.valueSelection = [0, node.label.length];
@@ -409,7 +767,7 @@ export function activate(context: vscode.ExtensionContext) {
 
                 treeDataProvider.commitInlineRename(newName);
                 treeDataProvider.handleFileRename([{ oldUri, newUri }]);
-                treeDataProvider.syncFolderRefAncestor(node);
+                await treeDataProvider.syncDirectories([path.dirname(oldPath)]);
                 await revealNodeByPath(newPath);
                 input.hide();
             } catch (error) {
@@ -431,382 +789,4100 @@ export function activate(context: vscode.ExtensionContext) {
         input.show();
     };
 
-    const deleteEntry = async (node: ExplorerNode) => {
-        const fsPath = treeDataProvider.resolveFsPath(node);
-        if (!fsPath) {
+    const deleteEntries = async (nodes: readonly ExplorerNode[]) => {
+        const candidates = nodes
+            .map(node => ({ node, fsPath: treeDataProvider.resolveEntryPath(node) }))
+            .filter((target): target is { node: ExplorerNode; fsPath: string } => target.fsPath !== undefined);
+        if (candidates.length === 0) {
             void vscode.window.showErrorMessage('削除対象の実パスを解決できませんでした。');
             return;
         }
 
-        const targetUri = vscode.Uri.file(fsPath);
-        let stat: vscode.FileStat;
-        try {
-            stat = await vscode.workspace.fs.stat(targetUri);
-        } catch {
+        // 選択したフォルダーの配下にある項目はフォルダーごと削除されるため対象から外す
+        const targets: { node: ExplorerNode; fsPath: string; stat: vscode.FileStat }[] = [];
+        for (const candidate of candidates) {
+            if (candidates.some(other => candidate.fsPath.startsWith(other.fsPath + path.sep))) {
+                continue;
+            }
+            if (targets.some(target => target.fsPath === candidate.fsPath)) {
+                continue;
+            }
+            try {
+                targets.push({ ...candidate, stat: await vscode.workspace.fs.stat(vscode.Uri.file(candidate.fsPath)) });
+            } catch {
+                // 既に存在しないものは対象外
+            }
+        }
+        if (targets.length === 0) {
             void vscode.window.showErrorMessage('削除対象が見つかりませんでした。');
             return;
         }
 
-        const label = (stat.type & vscode.FileType.Directory) ? 'フォルダ' : 'ファイル';
-        const action = await vscode.window.showWarningMessage(
-            `${label} "${node.label}" をゴミ箱に移動しますか？`,
-            { modal: true },
-            '移動する'
-        );
+        const isDirectory = (stat: vscode.FileStat) => Boolean(stat.type & vscode.FileType.Directory);
+        const kindLabel = (stat: vscode.FileStat) => isDirectory(stat) ? 'フォルダ' : 'ファイル';
+        const message = targets.length === 1
+            ? `${kindLabel(targets[0].stat)} "${targets[0].node.label}" をゴミ箱に移動しますか？`
+            : `次の ${targets.length} 件の項目をゴミ箱に移動しますか？`;
+        const detail = targets.length === 1 ? undefined
+            : targets.slice(0, 10).map(target => path.basename(target.fsPath)).join('\n')
+            + (targets.length > 10 ? `\nほか ${targets.length - 10} 件` : '');
+        const action = await vscode.window.showWarningMessage(message, { modal: true, detail }, '移動する');
 
         if (action !== '移動する') {
             return;
         }
 
-        try {
-            await vscode.workspace.fs.delete(targetUri, {
-                recursive: Boolean(stat.type & vscode.FileType.Directory),
-                useTrash: true,
-            });
-            treeDataProvider.handleFileDelete([targetUri]);
-            treeDataProvider.syncFolderRefAncestor(node);
-        } catch (error) {
-            const message = error instanceof Error ? error.message : String(error);
-            void vscode.window.showErrorMessage(`${label}の削除に失敗しました: ${message}`);
+        const deleted: vscode.Uri[] = [];
+        const failures: string[] = [];
+        for (const target of targets) {
+            const targetUri = vscode.Uri.file(target.fsPath);
+            try {
+                await vscode.workspace.fs.delete(targetUri, { recursive: isDirectory(target.stat), useTrash: true });
+                deleted.push(targetUri);
+            } catch (error) {
+                failures.push(`${path.basename(target.fsPath)}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        treeDataProvider.handleFileDelete(deleted);
+        await treeDataProvider.syncDirectories(targets.map(target => path.dirname(target.fsPath)));
+        if (failures.length) {
+            void vscode.window.showErrorMessage(`削除に失敗しました: ${failures.join(', ')}`);
         }
     };
 
-    // --- コマンド定義テーブル ---
-    const commandTable: [string, (...args: any[]) => any][] = [
-        ['customExplorer.importFromWorkspace', async () => {
-            const fileUri = await vscode.window.showOpenDialog({
-                canSelectMany: false,
-                openLabel: '追加',
-                canSelectFiles: true,
-                canSelectFolders: true,
-            });
-            if (!fileUri?.[0]) return;
-            const targetUri = fileUri[0];
-            const stat = await vscode.workspace.fs.stat(targetUri);
-            if (stat.type === vscode.FileType.Directory) {
-                treeDataProvider.importDirectory(targetUri.fsPath);
-            } else {
-                treeDataProvider.addFile(targetUri.fsPath);
-            }
-        }],
+    const bulkRename = async (node?: ExplorerNode, nodes?: ExplorerNode[]) => {
+        const fsPaths = Array.from(new Set(resolveTargets(node, nodes)
+            .map(target => treeDataProvider.resolveEntryPath(target))
+            .filter((fsPath): fsPath is string => fsPath !== undefined && fs.existsSync(fsPath))));
+        if (fsPaths.length === 0) {
+            void vscode.window.showErrorMessage('名前変更対象が見つかりませんでした。');
+            return;
+        }
 
-        ['customExplorer.addGroup', async (node?: ExplorerNode) => {
-            const label = await vscode.window.showInputBox({ prompt: 'グループ名を入力してください' });
-            if (!label) return;
-            treeDataProvider.addGroup(label, node);
-        }],
+        const document = await vscode.workspace.openTextDocument(bulkRenameProvider.open(fsPaths));
+        await vscode.window.showTextDocument(document, { preview: false });
+        vscode.window.setStatusBarMessage('各行の名前を編集して保存すると、まとめて名前を変更します。', 10000);
+    };
 
-        ['customExplorer.addGroupToRoot', async () => {
-            const label = await vscode.window.showInputBox({ prompt: 'グループ名を入力してください' });
-            if (!label) return;
-            treeDataProvider.addGroup(label, undefined);
-        }],
+    // --- メモ ---
 
-        ['customExplorer.createNewFolder', (node?: ExplorerNode) => {
-            treeDataProvider.addGroup(DEFAULT_GROUP_NAME, node, vscode.TreeItemCollapsibleState.Collapsed);
-        }],
+    const editNote = async (node: ExplorerNode) => {
+        if (!node || !treeDataProvider.canAnnotateNode(node)) {
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(noteProvider.open(node));
+        await vscode.window.showTextDocument(document, { preview: false });
+        vscode.window.setStatusBarMessage('Markdown でメモを書いて保存すると、項目のツールチップに表示されます。', 10000);
+    };
 
-        ['customExplorer.renameEntry', (node: ExplorerNode) => startInlineGroupRename(node)],
+    const removeNote = (node: ExplorerNode) => {
+        if (node?.note) {
+            treeDataProvider.setNote(node, '');
+        }
+    };
 
-        ['customExplorer.removeEntry', (node?: ExplorerNode, nodes?: ExplorerNode[]) => {
-            const targets = nodes?.length ? nodes
-                : node ? [node]
-                    : [...treeView.selection];
-            if (targets.length === 0) return;
-            targets.forEach(n => treeDataProvider.removeNode(n, false));
-            treeDataProvider.saveAndRefresh();
-        }],
+    // --- フィルター ---
 
-        ['customExplorer.collapseRecursive', (node: ExplorerNode) => treeDataProvider.collapseRecursive(node)],
-        ['customExplorer.expandRecursive', (node: ExplorerNode) => treeDataProvider.expandRecursive(node)],
-        ['customExplorer.collapseAll', () => treeDataProvider.collapseRecursive(undefined)],
-        ['customExplorer.expandAll', () => treeDataProvider.expandRecursive(undefined)],
-        ['customExplorer.revealActiveFile', () => revealEditorInTree(vscode.window.activeTextEditor, { focus: true, notify: true })],
-        ['customExplorer.convertToGroup', (node: ExplorerNode) => treeDataProvider.convertToGroup(node)],
+    const applyFilter = async () => {
+        const query = await vscode.window.showInputBox({
+            title: 'フィルター',
+            prompt: '絞り込む文字列、または glob パターン (例: *.test.ts, src/**/api*) を入力してください',
+            value: treeDataProvider.getFilter(),
+        });
+        if (query === undefined) {
+            return;
+        }
+        updateFilter(query);
+    };
 
-        // --- 新規作成系 (folder-ref配下で一時ノードを見せつつ拡張側で作成) ---
-        ['customExplorer.newFile', (node: ExplorerNode) => startInlineCreation(node, 'file')],
-        ['customExplorer.newFolder', (node: ExplorerNode) => startInlineCreation(node, 'folder')],
+    const updateFilter = (query: string | undefined) => {
+        const matchCount = treeDataProvider.setFilter(query);
+        const activeQuery = treeDataProvider.getFilter();
+        treeView.message = activeQuery
+            ? `フィルター: "${activeQuery}" (${matchCount} 件一致)`
+            : undefined;
+    };
 
-        // --- 実ファイル操作 (組み込みコマンドへ委譲) ---
-        ['customExplorer.renameFile', (node: ExplorerNode) => startInlineFileRename(node)],
-        ['customExplorer.deleteFile', (node: ExplorerNode) => deleteEntry(node)],
+    // --- スマートグループ (query-group) ---
 
-        // --- OS連携・パス操作・開く系 (組み込みコマンドへ委譲) ---
-        ['customExplorer.openToSide', async (node: ExplorerNode) => {
-            const fsPath = treeDataProvider.resolveFsPath(node);
-            if (fsPath) {
-                // ファイルを現在のエディタの「横（Beside）」に開く
-                await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(fsPath), { viewColumn: vscode.ViewColumn.Beside });
-            }
-        }],
-        ['customExplorer.revealInMac', executeStandardCommand('revealFileInOS')],
-        ['customExplorer.revealInWindows', executeStandardCommand('revealFileInOS')],
-        ['customExplorer.revealInLinux', executeStandardCommand('revealFileInOS')],
-        ['customExplorer.openWith', executeStandardCommand('explorer.openWith')],
-        ['customExplorer.openInTerminal', executeStandardCommand('openInTerminal')],
-        ['customExplorer.copyPath', executeStandardCommand('copyFilePath')],
-        ['customExplorer.copyRelativePath', executeStandardCommand('copyRelativeFilePath')],
-    ];
+    const parseGlobList = (value: string): string[] =>
+        value.split(',').map(pattern => pattern.trim()).filter(Boolean);
 
-    context.subscriptions.push(
-        ...eventSubscriptions,
-        ...commandTable.map(([id, handler]) => vscode.commands.registerCommand(id, handler)),
-    );
-}
+    const promptQuery = async (current?: ExplorerNode): Promise<{ query: GlobQuery; scopePath?: string } | undefined> => {
+        const includeInput = await vscode.window.showInputBox({
+            title: 'スマートグループ: 含めるファイル',
+            prompt: '含めるファイルの glob パターンを入力してください（カンマ区切り）',
+            placeHolder: '**/*.proto, src/**/*.test.ts',
+            value: current?.query?.include.join(', '),
+            validateInput: value => parseGlobList(value).length ? undefined : 'パターンを1つ以上入力してください。',
+        });
+        if (includeInput === undefined) {
+            return undefined;
+        }
 
-// ---------------------------------------------------------------------------
-// ProblemFileDecorationProvider
-// ---------------------------------------------------------------------------
+        const excludeInput = await vscode.window.showInputBox({
+            title: 'スマートグループ: 除外するファイル',
+            prompt: '除外するファイルの glob パターンを入力してください（カンマ区切り・省略可）',
+            placeHolder: '**/generated/**',
+            value: current?.query?.exclude.join(', '),
+        });
+        if (excludeInput === undefined) {
+            return undefined;
+        }
 
-class ProblemFileDecorationProvider implements vscode.FileDecorationProvider {
-    private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
-    readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+        type ScopePickItem = vscode.QuickPickItem & { scope: 'workspace' | 'current' | 'pick' };
+        const scopeItems: ScopePickItem[] = [
+            { label: '$(root-folder) ワークスペース全体', scope: 'workspace' },
+            { label: '$(folder) フォルダーを選択...', scope: 'pick' },
+        ];
+        if (current?.linkedPath) {
+            scopeItems.unshift({
+                label: '$(check) 現在のスコープ',
+                description: vscode.workspace.asRelativePath(current.linkedPath),
+                scope: 'current',
+            });
+        }
 
-    constructor(private treeDataProvider: CustomTreeDataProvider) { }
+        const scopePick = await vscode.window.showQuickPick(scopeItems, {
+            title: 'スマートグループ: 検索範囲',
+            placeHolder: '検索対象のフォルダーを選択してください',
+        });
+        if (!scopePick) {
+            return undefined;
+        }
 
-    provideFileDecoration(uri: vscode.Uri, _token: vscode.CancellationToken): vscode.ProviderResult<vscode.FileDecoration> {
-        const node = this.treeDataProvider.getNodeByUri(uri);
-        if (!node) return undefined;
+        let scopePath: string | undefined;
+        if (scopePick.scope === 'current') {
+            scopePath = current?.linkedPath;
+        } else if (scopePick.scope === 'pick') {
+            const folderUri = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                openLabel: '選択',
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            });
+            if (!folderUri?.[0]) {
+                return undefined;
+            }
+            scopePath = folderUri[0].fsPath;
+        }
 
-        return node.type === 'file-ref'
-            ? (this.getDiagnosticDecoration(uri) ?? new vscode.FileDecoration())
-            : this.getGroupDecoration(node);
-    }
+        return {
+            query: { include: parseGlobList(includeInput), exclude: parseGlobList(excludeInput) },
+            scopePath,
+        };
+    };
 
-    private getDiagnosticDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
-        const diagnostics = vscode.languages.getDiagnostics(uri);
-        if (!diagnostics.length) return undefined;
+    const addQueryGroup = async (node?: ExplorerNode) => {
+        const label = await vscode.window.showInputBox({ prompt: 'スマートグループ名を入力してください' });
+        if (!label) {
+            return;
+        }
 
-        const severity =
-            diagnostics.some(d => d.severity === vscode.DiagnosticSeverity.Error) ? 'error' :
-                diagnostics.some(d => d.severity === vscode.DiagnosticSeverity.Warning) ? 'warning' : null;
+        const result = await promptQuery();
+        if (!result) {
+            return;
+        }
+        treeDataProvider.addQueryGroup(label, result.query, result.scopePath, node?.type === 'group' ? node : undefined);
+    };
 
-        return severity ? SEVERITY_DECORATION[severity] : undefined;
-    }
+    const editQueryGroup = async (node: ExplorerNode) => {
+        if (node?.type !== 'query-group') {
+            return;
+        }
+        const result = await promptQuery(node);
+        if (!result) {
+            return;
+        }
+        treeDataProvider.updateQueryGroup(node, result.query, result.scopePath);
+    };
 
-    private getGroupDecoration(groupNode: ExplorerNode): vscode.FileDecoration | undefined {
-        if (!groupNode.children?.length) return undefined;
+    // --- Git グループ ---
 
-        const result = this.traverseDiagnostics(groupNode.children);
-        if (result === 'none') return undefined;
-        return GROUP_SEVERITY_DECORATION[result];
-    }
+    const addGitGroup = async (node?: ExplorerNode) => {
+        const picked = await vscode.window.showQuickPick(
+            (Object.keys(GIT_GROUP_KINDS) as GitGroupKind[]).map(kind => ({
+                label: `$(${GIT_GROUP_KINDS[kind].icon}) ${kind === 'diff' ? 'Changed vs <ref>' : GIT_GROUP_KINDS[kind].label}`,
+                description: GIT_GROUP_KINDS[kind].description,
+                gitKind: kind,
+            })),
+            { placeHolder: '追加する Git グループの種類を選択してください' }
+        );
+        if (!picked) {
+            return;
+        }
 
-    private traverseDiagnostics(nodes: ExplorerNode[]): 'error' | 'warning' | 'none' {
-        let hasWarning = false;
-        for (const child of nodes) {
-            if (child.type === 'file-ref' && child.filePath) {
-                const diags = vscode.languages.getDiagnostics(vscode.Uri.file(child.filePath));
-                if (diags.some(d => d.severity === vscode.DiagnosticSeverity.Error)) return 'error';
-                if (diags.some(d => d.severity === vscode.DiagnosticSeverity.Warning)) hasWarning = true;
-            } else if (this.isGroupLike(child) && child.children) {
-                const result = this.traverseDiagnostics(child.children);
-                if (result === 'error') return 'error';
-                if (result === 'warning') hasWarning = true;
+        let ref: string | undefined;
+        if (picked.gitKind === 'diff') {
+            ref = (await vscode.window.showInputBox({
+                prompt: '比較対象のブランチ・タグ・コミットを入力してください',
+                value: 'origin/main',
+                validateInput: value => value.trim() ? undefined : '空文字は使用できません。',
+            }))?.trim();
+            if (!ref) {
+                return;
             }
         }
-        return hasWarning ? 'warning' : 'none';
-    }
 
-    private isGroupLike(node: ExplorerNode): boolean {
-        return node.type === 'group' || node.type === 'folder-ref';
-    }
+        treeDataProvider.addGitGroup({ kind: picked.gitKind, ref }, node?.type === 'group' ? node : undefined);
+    };
 
-    public handleDiagnosticsChange(uris: ReadonlyArray<vscode.Uri>) {
-        const urisToUpdate = new Set<string>();
+    const setSortMode = async (node: ExplorerNode) => {
+        if (node?.type !== 'group' && node?.type !== 'folder-ref') {
+            return;
+        }
+        const current = treeDataProvider.getSortMode(node);
+        const picked = await vscode.window.showQuickPick(
+            (Object.keys(SORT_MODES) as GroupSortMode[])
+                .filter(mode => node.type === 'group' || mode !== 'manual')
+                .map(mode => ({
+                    label: SORT_MODES[mode].label,
+                    description: mode === current ? '現在の設定' : undefined,
+                    detail: SORT_MODES[mode].description,
+                    mode,
+                })),
+            { placeHolder: `「${node.label}」の並べ替え順序を選択してください` }
+        );
+        if (!picked) {
+            return;
+        }
+        treeDataProvider.setSortMode(node, picked.mode);
+    };
 
-        for (const uri of uris) {
-            urisToUpdate.add(uri.toString());
+    const snapshotGroup = async (node: ExplorerNode) => {
+        const snapshot = treeDataProvider.snapshotGroup(node);
+        if (snapshot) {
+            await treeView.reveal(snapshot, { select: true, focus: false, expand: true });
+        }
+    };
 
-            const node = this.treeDataProvider.getNodeByUri(uri);
-            if (node) {
-                let parent = this.treeDataProvider.getParent(node);
-                while (parent) {
-                    urisToUpdate.add(this.treeDataProvider.getDisplayUri(parent).toString());
-                    urisToUpdate.add(this.treeDataProvider.getGroupUri(parent).toString());
-                    parent = this.treeDataProvider.getParent(parent);
-                }
-            }
+    // --- レイアウト操作 ---
+
+    const validateLayoutName = (value: string, currentName?: string): string | undefined => {
+        const name = value.trim();
+        if (!name) {
+            return '空文字は使用できません。';
+        }
+        if (name !== currentName && treeDataProvider.getLayoutNames().includes(name)) {
+            return '同名のレイアウトが既に存在します。';
         }
+        return undefined;
+    };
 
-        this._onDidChangeFileDecorations.fire(
-            Array.from(urisToUpdate).map(u => vscode.Uri.parse(u))
+    const pickLayout = async (placeHolder: string): Promise<string | undefined> => {
+        const active = treeDataProvider.getActiveLayout();
+        const picked = await vscode.window.showQuickPick(
+            treeDataProvider.getLayoutNames().map(name => ({
+                label: name,
+                description: name === active ? '現在のレイアウト' : undefined,
+            })),
+            { placeHolder }
         );
-    }
-}
+        return picked?.label;
+    };
 
-// ---------------------------------------------------------------------------
-// CustomTreeDataProvider
-// ---------------------------------------------------------------------------
+    const createLayout = async (sourceName?: string) => {
+        const name = await vscode.window.showInputBox({
+            prompt: sourceName ? `"${sourceName}" の複製先のレイアウト名を入力してください` : 'レイアウト名を入力してください',
+            value: sourceName ? `${sourceName} のコピー` : undefined,
+            validateInput: value => validateLayoutName(value),
+        });
+        if (!name) {
+            return;
+        }
+        treeDataProvider.createLayout(name.trim(), sourceName);
+    };
 
-class CustomTreeDataProvider implements
-    vscode.TreeDataProvider<ExplorerNode>,
-    vscode.TreeDragAndDropController<ExplorerNode> {
-    private _onDidChangeTreeData = new vscode.EventEmitter<ExplorerNode | undefined | null | void>();
-    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    const duplicateLayout = async () => {
+        const sourceName = await pickLayout('複製するレイアウトを選択してください');
+        if (sourceName) {
+            await createLayout(sourceName);
+        }
+    };
 
-    private data: ExplorerNode[] = [];
-    private pathIndex: Map<string, ExplorerNode> = new Map();
-    private uriToNodeMap: Map<string, ExplorerNode> = new Map();
-    private watcherMap: Map<string, vscode.FileSystemWatcher> = new Map();
-    private pendingCreation?: { parent: ExplorerNode; node: ExplorerNode };
-    private pendingRename?: { node: ExplorerNode; originalLabel: string; kind: 'file' | 'folder' };
+    const renameLayout = async () => {
+        const oldName = await pickLayout('名前を変更するレイアウトを選択してください');
+        if (!oldName) {
+            return;
+        }
 
-    public dropMimeTypes = [MIME_INTERNAL, 'text/uri-list', 'text/plain'];
-    public dragMimeTypes = [MIME_INTERNAL, 'text/uri-list', 'text/plain'];
+        const newName = await vscode.window.showInputBox({
+            prompt: '新しいレイアウト名を入力してください',
+            value: oldName,
+            valueSelection: [0, oldName.length],
+            validateInput: value => validateLayoutName(value, oldName),
+        });
+        if (!newName || newName.trim() === oldName) {
+            return;
+        }
+        treeDataProvider.renameLayout(oldName, newName.trim());
+    };
+
+    const deleteLayout = async () => {
+        if (treeDataProvider.getLayoutNames().length <= 1) {
+            void vscode.window.showInformationMessage('最後のレイアウトは削除できません。');
+            return;
+        }
+
+        const name = await pickLayout('削除するレイアウトを選択してください');
+        if (!name) {
+            return;
+        }
+
+        const action = await vscode.window.showWarningMessage(
+            `レイアウト "${name}" を削除しますか？`,
+            { modal: true },
+            '削除する'
+        );
+        if (action === '削除する') {
+            treeDataProvider.deleteLayout(name);
+        }
+    };
+
+    const showLayoutSwitcher = async () => {
+        type LayoutPickItem = vscode.QuickPickItem & { layoutName?: string; run?: () => Promise<void> };
+
+        const active = treeDataProvider.getActiveLayout();
+        const items: LayoutPickItem[] = [
+            ...treeDataProvider.getLayoutNames().map(name => ({
+                label: `${name === active ? '$(check)' : '$(blank)'} ${name}`,
+                description: name === active ? '現在のレイアウト' : undefined,
+                layoutName: name,
+            })),
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            { label: '$(add) 新しいレイアウト...', run: () => createLayout() },
+            { label: '$(copy) レイアウトを複製...', run: duplicateLayout },
+            { label: '$(edit) レイアウト名の変更...', run: renameLayout },
+            { label: '$(trash) レイアウトを削除...', run: deleteLayout },
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: '切り替えるレイアウトを選択してください' });
+        if (!picked) {
+            return;
+        }
+        if (picked.layoutName) {
+            treeDataProvider.switchLayout(picked.layoutName);
+        } else {
+            await picked.run?.();
+        }
+    };
+
+    // --- エクスポート / インポート ---
+
+    const getDefaultExportUri = (fileName: string): vscode.Uri | undefined => {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        return folder ? vscode.Uri.joinPath(folder.uri, fileName) : undefined;
+    };
+
+    const showExportError = (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        void vscode.window.showErrorMessage(`エクスポートに失敗しました: ${message}`);
+    };
+
+    const exportJson = async (node?: ExplorerNode) => {
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: getDefaultExportUri(`${node?.label ?? treeDataProvider.getActiveLayout()}.json`),
+            filters: { JSON: ['json'] },
+            saveLabel: 'エクスポート',
+        });
+        if (!uri) {
+            return;
+        }
+        try {
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(treeDataProvider.exportJson(node), 'utf8'));
+            void vscode.window.showInformationMessage(`${path.basename(uri.fsPath)} にエクスポートしました。`);
+        } catch (error) {
+            showExportError(error);
+        }
+    };
+
+    const exportMarkdown = async (node?: ExplorerNode) => {
+        const picked = await vscode.window.showQuickPick([
+            { label: '$(clippy) クリップボードにコピー', description: 'リンクはワークスペースフォルダーからの相対パス', toClipboard: true },
+            { label: '$(save) ファイルに保存...', description: 'リンクは保存先からの相対パス', toClipboard: false },
+        ], { placeHolder: 'Markdown の出力先を選択してください' });
+        if (!picked) {
+            return;
+        }
+
+        if (picked.toClipboard) {
+            const baseDir = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+            try {
+                await vscode.env.clipboard.writeText(await treeDataProvider.exportMarkdown(baseDir, node));
+                void vscode.window.showInformationMessage('Markdown をクリップボードにコピーしました。');
+            } catch (error) {
+                showExportError(error);
+            }
+            return;
+        }
+
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: getDefaultExportUri(`${node?.label ?? treeDataProvider.getActiveLayout()}.md`),
+            filters: { Markdown: ['md'] },
+            saveLabel: 'エクスポート',
+        });
+        if (!uri) {
+            return;
+        }
+        try {
+            const markdown = await treeDataProvider.exportMarkdown(path.dirname(uri.fsPath), node);
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(markdown, 'utf8'));
+            void vscode.window.showInformationMessage(`${path.basename(uri.fsPath)} にエクスポートしました。`);
+        } catch (error) {
+            showExportError(error);
+        }
+    };
+
+    const importJson = async (node?: ExplorerNode) => {
+        const fileUri = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'インポート',
+            filters: { JSON: ['json'] },
+        });
+        if (!fileUri?.[0]) {
+            return;
+        }
+
+        let target = node?.type === 'group' ? node : undefined;
+        let replace = false;
+        if (!target) {
+            type ImportPickItem = vscode.QuickPickItem & { target?: ExplorerNode; replace?: boolean };
+            const items: ImportPickItem[] = [
+                { label: '$(root-folder) ルートに追加' },
+                ...treeDataProvider.getGroupChoices().map(choice => ({
+                    label: `$(folder) ${choice.path}`,
+                    target: choice.node,
+                })),
+                { label: '', kind: vscode.QuickPickItemKind.Separator },
+                { label: '$(replace-all) 現在のツリーを置き換える', replace: true },
+            ];
+            const picked = await vscode.window.showQuickPick(items, { placeHolder: 'インポート先を選択してください' });
+            if (!picked) {
+                return;
+            }
+
+            if (picked.replace) {
+                const action = await vscode.window.showWarningMessage(
+                    `レイアウト "${treeDataProvider.getActiveLayout()}" のツリーをインポートした内容で置き換えますか？`,
+                    { modal: true },
+                    '置き換える'
+                );
+                if (action !== '置き換える') {
+                    return;
+                }
+            }
+            target = picked.target;
+            replace = picked.replace ?? false;
+        }
+
+        try {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(fileUri[0])).toString('utf8');
+            const { count, missing } = treeDataProvider.importJson(content, target, replace);
+            if (missing.length === 0) {
+                void vscode.window.showInformationMessage(`${count} 件の項目をインポートしました。`);
+                return;
+            }
+            const preview = missing.slice(0, 5).join(', ') + (missing.length > 5 ? ` ほか ${missing.length - 5} 件` : '');
+            void vscode.window.showWarningMessage(
+                `${count} 件の項目をインポートしましたが、次のパスが見つかりません: ${preview}`
+            );
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            void vscode.window.showErrorMessage(`インポートに失敗しました: ${message}`);
+        }
+    };
+
+    // --- 参照切れ ---
+
+    const relinkEntry = async (node: ExplorerNode) => {
+        if (node?.type !== 'file-ref' && node?.type !== 'folder-ref' && !treeDataProvider.isRangeRef(node)) {
+            return;
+        }
+        const isFolder = node.type === 'folder-ref';
+
+        type RelinkPickItem = vscode.QuickPickItem & { fsPath?: string };
+        const candidates = await vscode.window.withProgress(
+            { location: { viewId: VIEW_ID } },
+            () => treeDataProvider.findRelinkCandidates(node)
+        );
+        const items: RelinkPickItem[] = [
+            ...candidates.map(fsPath => ({
+                label: `$(${isFolder ? 'folder' : 'file'}) ${path.basename(fsPath)}`,
+                description: treeDataProvider.getWorkspaceLocation(fsPath)?.relativePath ?? fsPath,
+                fsPath,
+            })),
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            { label: `$(folder-opened) ${isFolder ? 'フォルダー' : 'ファイル'}を選択...` },
+        ];
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: candidates.length
+                ? `「${node.label}」の新しい参照先を選択してください`
+                : '同じ名前の候補が見つかりませんでした。参照先を選択してください',
+            matchOnDescription: true,
+        });
+        if (!picked) {
+            return;
+        }
+
+        let newPath = picked.fsPath;
+        if (!newPath) {
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                canSelectFiles: !isFolder,
+                canSelectFolders: isFolder,
+                openLabel: '再リンク',
+            });
+            newPath = uris?.[0]?.fsPath;
+        }
+        if (newPath) {
+            treeDataProvider.relinkNode(node, newPath);
+        }
+    };
+
+    const cleanUpMissing = async () => {
+        const count = await treeDataProvider.countMissingReferences();
+        if (count === 0) {
+            void vscode.window.showInformationMessage('参照先が見つからない項目はありません。');
+            return;
+        }
+        const action = await vscode.window.showWarningMessage(
+            `参照先が見つからない ${count} 件の項目を取り除きますか？`,
+            { modal: true },
+            '取り除く'
+        );
+        if (action !== '取り除く') {
+            return;
+        }
+        const removedCount = await treeDataProvider.removeMissingReferences();
+        void vscode.window.showInformationMessage(`${removedCount} 件の項目を取り除きました。`);
+    };
+
+    // --- 項目の追加 ---
+
+    type FolderImportMode = 'folder-ref' | 'snapshot';
+
+    // フォルダーごとにライブの参照か静的な取り込みかを選ばせる。「残りすべて」を選ぶと以降は確認しない
+    const pickFolderImportModes = async (folderPaths: string[]): Promise<Map<string, FolderImportMode> | undefined> => {
+        type ModePickItem = vscode.QuickPickItem & { mode: FolderImportMode; applyToRest?: boolean };
+        const modes = new Map<string, FolderImportMode>();
+        let restMode: FolderImportMode | undefined;
+
+        for (const [index, folderPath] of folderPaths.entries()) {
+            if (restMode) {
+                modes.set(folderPath, restMode);
+                continue;
+            }
+            const remaining = folderPaths.length - index;
+            const items: ModePickItem[] = [
+                { label: '$(folder-library) フォルダー参照として追加', description: '実フォルダーの変更に追従します', mode: 'folder-ref' },
+                { label: '$(files) 静的なグループとして取り込む', description: '現在のファイル構成をコピーします', mode: 'snapshot' },
+            ];
+            if (remaining > 1) {
+                items.push(
+                    { label: '', kind: vscode.QuickPickItemKind.Separator, mode: 'folder-ref' },
+                    { label: `$(folder-library) 残り ${remaining} 件をすべてフォルダー参照として追加`, mode: 'folder-ref', applyToRest: true },
+                    { label: `$(files) 残り ${remaining} 件をすべて静的なグループとして取り込む`, mode: 'snapshot', applyToRest: true },
+                );
+            }
+            const picked = await vscode.window.showQuickPick(items, {
+                title: `フォルダーの追加方法 (${index + 1}/${folderPaths.length})`,
+                placeHolder: `「${path.basename(folderPath)}」の追加方法を選択してください`,
+            });
+            if (!picked) {
+                return undefined;
+            }
+            if (picked.applyToRest) {
+                restMode = picked.mode;
+            }
+            modes.set(folderPath, picked.mode);
+        }
+        return modes;
+    };
+
+    const importFromWorkspace = async (node?: ExplorerNode) => {
+        const target = node?.type === 'group' ? node : undefined;
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: target ? `「${target.label}」に追加` : '追加',
+            canSelectFiles: true,
+            canSelectFolders: true,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        });
+        if (!uris?.length) {
+            return;
+        }
+
+        // 選択後に削除された・権限がないなどで調べられないパスは追加せずに知らせる
+        const readable: vscode.Uri[] = [];
+        const unreadable: string[] = [];
+        const folderPaths: string[] = [];
+        for (const uri of uris) {
+            let stat: vscode.FileStat;
+            try {
+                stat = await vscode.workspace.fs.stat(uri);
+            } catch {
+                unreadable.push(uri.fsPath);
+                continue;
+            }
+            readable.push(uri);
+            if (stat.type & vscode.FileType.Directory) {
+                folderPaths.push(uri.fsPath);
+            }
+        }
+        if (unreadable.length > 0) {
+            const preview = unreadable.slice(0, 5).join(', ') + (unreadable.length > 5 ? ` ほか ${unreadable.length - 5} 件` : '');
+            void vscode.window.showWarningMessage(`次のパスを読み込めなかったため、追加しませんでした: ${preview}`);
+        }
+        if (readable.length === 0) {
+            return;
+        }
+        const folderModes = await pickFolderImportModes(folderPaths);
+        if (!folderModes) {
+            return;
+        }
+
+        const { added, skipped } = treeDataProvider.addEntries(
+            readable.map(uri => ({ fsPath: uri.fsPath, mode: folderModes.get(uri.fsPath) ?? 'file' })),
+            target
+        );
+        if (skipped.length > 0) {
+            const names = skipped.map(fsPath => path.basename(fsPath));
+            const preview = names.slice(0, 5).join(', ') + (names.length > 5 ? ` ほか ${names.length - 5} 件` : '');
+            void vscode.window.showInformationMessage(
+                `${added.length} 件を追加しました。追加先に既にある ${skipped.length} 件はスキップしました: ${preview}`
+            );
+        }
+    };
+
+    // --- 標準エクスプローラー・エディターからの追加 ---
+
+    // 追加先のグループを選ばせる。入力した名前で新しいグループを作ることもできる（null はルート）
+    const pickTargetGroup = (placeHolder: string): Promise<ExplorerNode | null | undefined> => {
+        type GroupPickItem = vscode.QuickPickItem & { node?: ExplorerNode; isRoot?: boolean; newGroupName?: string };
+
+        const baseItems: GroupPickItem[] = [
+            { label: '$(root-folder) ルート', isRoot: true },
+            ...treeDataProvider.getGroupChoices().map(choice => ({ label: `$(folder) ${choice.path}`, node: choice.node })),
+        ];
+        const quickPick = vscode.window.createQuickPick<GroupPickItem>();
+        quickPick.placeholder = placeHolder;
+        quickPick.items = baseItems;
+        quickPick.onDidChangeValue(value => {
+            const name = value.trim();
+            quickPick.items = name
+                ? [...baseItems, { label: `$(new-folder) 新しいグループ「${name}」を作成`, alwaysShow: true, newGroupName: name }]
+                : baseItems;
+        });
+
+        return new Promise(resolve => {
+            let result: ExplorerNode | null | undefined;
+            quickPick.onDidAccept(() => {
+                const picked = quickPick.selectedItems[0];
+                if (!picked) {
+                    return;
+                }
+                result = picked.newGroupName ? treeDataProvider.addGroup(picked.newGroupName)
+                    : picked.isRoot ? null
+                        : picked.node;
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                quickPick.dispose();
+                resolve(result);
+            });
+            quickPick.show();
+        });
+    };
+
+    const getActiveEditorUri = (): vscode.Uri | undefined => {
+        const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+        if (input instanceof vscode.TabInputText || input instanceof vscode.TabInputCustom || input instanceof vscode.TabInputNotebook) {
+            return input.uri;
+        }
+        return vscode.window.activeTextEditor?.document.uri;
+    };
+
+    // explorer/context は (uri, uris)、editor/title 系は (uri, ...) で呼ばれる。引数が無ければアクティブなエディター
+    const addResourcesToGroup = async (uri?: vscode.Uri, uris?: unknown) => {
+        const resources = Array.isArray(uris) && uris.length && uris.every(item => item instanceof vscode.Uri) ? uris as vscode.Uri[]
+            : uri instanceof vscode.Uri ? [uri]
+                : [getActiveEditorUri()].filter((item): item is vscode.Uri => item !== undefined);
+        const fsPaths = resources.filter(resource => resource.scheme === 'file').map(resource => resource.fsPath);
+        if (fsPaths.length === 0) {
+            void vscode.window.showInformationMessage('追加できるファイルがありません。');
+            return;
+        }
+
+        const subject = fsPaths.length === 1 ? `「${path.basename(fsPaths[0])}」` : `${fsPaths.length} 件の項目`;
+        const target = await pickTargetGroup(`${subject}の追加先を選択してください`);
+        if (target === undefined) {
+            return;
+        }
+
+        const { added, skipped } = treeDataProvider.addEntries(
+            fsPaths.map(fsPath => ({
+                fsPath,
+                mode: fs.statSync(fsPath, { throwIfNoEntry: false })?.isDirectory() ? 'folder-ref' : 'file',
+            })),
+            target ?? undefined
+        );
+
+        // 追加したノード（既に追加済みだった場合はそのノード）を表示する
+        const revealTarget = added[0] ?? (skipped[0] ? treeDataProvider.findNodeByPath(skipped[0]) : undefined);
+        if (revealTarget) {
+            await treeView.reveal(revealTarget, { select: true, focus: false, expand: true });
+        }
+        if (added.length === 0 && skipped.length > 0) {
+            void vscode.window.showInformationMessage(`${subject}は追加先に既にあります。`);
+        }
+    };
+
+    // --- 行・範囲のブックマーク ---
+
+    const addSelectionBookmark = async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            void vscode.window.showInformationMessage('現在開いているエディターはファイルシステム上のファイルではありません。');
+            return;
+        }
+
+        // 選択範囲が空の場合はカーソル行全体を対象にする
+        const { document, selection } = editor;
+        const range = selection.isEmpty ? document.lineAt(selection.active.line).range : selection;
+        const fileName = path.basename(document.uri.fsPath);
+        const firstLine = document.lineAt(range.start.line).text.trim();
+
+        const label = await vscode.window.showInputBox({
+            prompt: 'ブックマークの名前を入力してください',
+            value: firstLine.slice(0, 60) || `${fileName}:${range.start.line + 1}`,
+        });
+        if (label === undefined) {
+            return;
+        }
+
+        const target = await pickTargetGroup('ブックマークの追加先を選択してください');
+        if (target === undefined) {
+            return;
+        }
+
+        const node = treeDataProvider.addLocationRef(
+            document.uri.fsPath,
+            range,
+            label.trim() || `${fileName}:${range.start.line + 1}`,
+            target ?? undefined
+        );
+        await treeView.reveal(node, { select: true, focus: false, expand: true });
+    };
+
+    // --- シンボル参照 ---
+
+    const pickDocumentSymbol = async (
+        uri: vscode.Uri,
+        placeHolder: string,
+        activePosition?: vscode.Position
+    ): Promise<DocumentSymbolEntry | undefined> => {
+        const symbols = await treeDataProvider.getDocumentSymbols(uri);
+        if (!symbols?.length) {
+            void vscode.window.showInformationMessage('このファイルからシンボルを取得できませんでした。');
+            return undefined;
+        }
+
+        const items = symbols.map(symbol => ({
+            label: `$(symbol-${(vscode.SymbolKind[symbol.kind] ?? 'Misc').replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase()}) ${symbol.name}`,
+            description: symbol.containerPath.join('.'),
+            symbol,
+        }));
+        // カーソル位置を含む最も内側のシンボルを初期選択にする
+        const activeItem = activePosition
+            ? [...items].reverse().find(item => item.symbol.range.contains(activePosition))
+            : undefined;
+
+        const quickPick = vscode.window.createQuickPick<typeof items[number]>();
+        quickPick.placeholder = placeHolder;
+        quickPick.matchOnDescription = true;
+        quickPick.items = items;
+        if (activeItem) {
+            quickPick.activeItems = [activeItem];
+        }
+
+        return new Promise(resolve => {
+            let result: DocumentSymbolEntry | undefined;
+            quickPick.onDidAccept(() => {
+                result = quickPick.selectedItems[0]?.symbol;
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                quickPick.dispose();
+                resolve(result);
+            });
+            quickPick.show();
+        });
+    };
+
+    const addSymbolRef = async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            void vscode.window.showInformationMessage('現在開いているエディターはファイルシステム上のファイルではありません。');
+            return;
+        }
+
+        const symbol = await pickDocumentSymbol(editor.document.uri, '参照するシンボルを選択してください', editor.selection.active);
+        if (!symbol) {
+            return;
+        }
+
+        const target = await pickTargetGroup('シンボル参照の追加先を選択してください');
+        if (target === undefined) {
+            return;
+        }
+
+        const node = treeDataProvider.addSymbolRef(editor.document.uri.fsPath, symbol, target ?? undefined);
+        await treeView.reveal(node, { select: true, focus: false, expand: true });
+    };
+
+    const openSymbol = async (node: ExplorerNode) => {
+        if (node?.type !== 'symbol-ref' || !node.filePath) {
+            return;
+        }
+        const symbol = await treeDataProvider.resolveSymbolRef(node);
+        // 解決できない場合は最後に見つかった位置で開く
+        const selection = symbol?.selectionRange ?? treeDataProvider.getLocationRange(node);
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(node.filePath), {
+            selection: selection && new vscode.Range(selection.start, selection.start),
+        });
+        if (node.unresolved) {
+            void vscode.window.showWarningMessage(`シンボル "${node.symbol?.name}" が見つかりません。`, '再解決...')
+                .then(action => action && reresolveSymbol(node));
+        }
+    };
+
+    // シンボルを探し直し、見つからない場合は同じファイルのシンボルから付け替え先を選ばせる
+    const reresolveSymbol = async (node: ExplorerNode) => {
+        if (node?.type !== 'symbol-ref' || !node.filePath) {
+            return;
+        }
+        const symbol = await treeDataProvider.resolveSymbolRef(node);
+        if (symbol) {
+            void vscode.window.showInformationMessage(`シンボル "${symbol.name}" が見つかりました。`);
+            return;
+        }
+
+        const picked = await pickDocumentSymbol(
+            vscode.Uri.file(node.filePath),
+            `"${node.symbol?.name}" が見つかりません。付け替えるシンボルを選択してください`
+        );
+        if (picked) {
+            treeDataProvider.rebindSymbolRef(node, picked);
+        }
+    };
+
+    // --- アクション ---
+
+    const pickActionTarget = async (kind: ActionKind, current?: ActionSpec): Promise<string | undefined> => {
+        const value = current?.kind === kind ? current.target : undefined;
+        switch (kind) {
+            case 'command': {
+                const commands = await vscode.commands.getCommands(true);
+                return vscode.window.showInputBox({
+                    title: 'アクション: コマンド',
+                    prompt: '実行するコマンドの ID を入力してください',
+                    placeHolder: 'workbench.action.files.saveAll',
+                    value,
+                    validateInput: input => commands.includes(input.trim()) ? undefined : '登録されていないコマンドです。',
+                }).then(input => input?.trim());
+            }
+            case 'task': {
+                const tasks = await vscode.tasks.fetchTasks();
+                if (tasks.length === 0) {
+                    void vscode.window.showInformationMessage('実行できるタスクがありません。');
+                    return undefined;
+                }
+                const picked = await vscode.window.showQuickPick(
+                    tasks.map(task => ({ label: task.name, description: task.source, picked: task.name === value })),
+                    { title: 'アクション: タスク', placeHolder: '実行するタスクを選択してください' }
+                );
+                return picked?.label;
+            }
+            case 'launch': {
+                const names = getLaunchConfigurations().map(({ name }) => name);
+                if (names.length === 0) {
+                    void vscode.window.showInformationMessage('launch.json にデバッグ構成がありません。');
+                    return undefined;
+                }
+                const picked = await vscode.window.showQuickPick(
+                    Array.from(new Set(names)).map(name => ({ label: name, picked: name === value })),
+                    { title: 'アクション: デバッグ構成', placeHolder: '開始するデバッグ構成を選択してください' }
+                );
+                return picked?.label;
+            }
+            case 'url':
+                return vscode.window.showInputBox({
+                    title: 'アクション: URL / ドキュメント',
+                    prompt: '開く URL、またはワークスペースからの相対パスを入力してください',
+                    placeHolder: 'https://example.com/wiki, docs/index.md',
+                    value,
+                    validateInput: input => input.trim() ? undefined : 'URL またはパスを入力してください。',
+                }).then(input => input?.trim());
+        }
+    };
+
+    // launch.json の構成と複合構成の名前を、定義しているワークスペースフォルダーとともに列挙する
+    const getLaunchConfigurations = (): { name: string; folder?: vscode.WorkspaceFolder }[] => {
+        const scopes: (vscode.WorkspaceFolder | undefined)[] = [...(vscode.workspace.workspaceFolders ?? []), undefined];
+        return scopes.flatMap(folder => {
+            const launch = folder
+                ? vscode.workspace.getConfiguration('launch', folder.uri).inspect<{ name?: string }[]>('configurations')?.workspaceFolderValue
+                : vscode.workspace.getConfiguration('launch').inspect<{ name?: string }[]>('configurations')?.workspaceValue;
+            const compounds = folder
+                ? vscode.workspace.getConfiguration('launch', folder.uri).inspect<{ name?: string }[]>('compounds')?.workspaceFolderValue
+                : vscode.workspace.getConfiguration('launch').inspect<{ name?: string }[]>('compounds')?.workspaceValue;
+            return [...(launch ?? []), ...(compounds ?? [])]
+                .filter(config => typeof config?.name === 'string')
+                .map(config => ({ name: config.name as string, folder }));
+        });
+    };
+
+    const promptAction = async (current?: ActionSpec): Promise<ActionSpec | undefined> => {
+        const kindPick = await vscode.window.showQuickPick(
+            (Object.keys(ACTION_KINDS) as ActionKind[]).map(kind => ({
+                label: `$(${ACTION_KINDS[kind].icon}) ${ACTION_KINDS[kind].label}`,
+                description: ACTION_KINDS[kind].description,
+                picked: kind === current?.kind,
+                actionKind: kind,
+            })),
+            { title: 'アクション: 種類', placeHolder: '実行する内容の種類を選択してください' }
+        );
+        if (!kindPick) {
+            return undefined;
+        }
+        const kind = kindPick.actionKind;
+
+        const target = await pickActionTarget(kind, current);
+        if (!target) {
+            return undefined;
+        }
+
+        let args: unknown[] | undefined;
+        if (kind === 'command') {
+            const argsInput = await vscode.window.showInputBox({
+                title: 'アクション: 引数',
+                prompt: 'コマンドに渡す引数を JSON 配列で入力してください（省略可）',
+                placeHolder: '["--flag", { "key": "value" }]',
+                value: current?.args ? JSON.stringify(current.args) : undefined,
+                validateInput: input => {
+                    if (!input.trim()) {
+                        return undefined;
+                    }
+                    try {
+                        return Array.isArray(JSON.parse(input)) ? undefined : 'JSON 配列を入力してください。';
+                    } catch {
+                        return 'JSON として解釈できません。';
+                    }
+                },
+            });
+            if (argsInput === undefined) {
+                return undefined;
+            }
+            args = argsInput.trim() ? JSON.parse(argsInput) : undefined;
+        }
+
+        const iconInput = await vscode.window.showInputBox({
+            title: 'アクション: アイコン',
+            prompt: 'アイコンにする codicon の名前を入力してください（省略時は種類ごとの既定アイコン）',
+            placeHolder: ACTION_KINDS[kind].icon,
+            value: current?.icon,
+        });
+        if (iconInput === undefined) {
+            return undefined;
+        }
+
+        const confirmPick = await vscode.window.showQuickPick(
+            [
+                { label: '確認せずに実行', confirm: false },
+                { label: '実行前に確認する', description: 'デプロイや削除など取り消せない操作向け', confirm: true },
+            ],
+            { title: 'アクション: 実行前の確認', placeHolder: 'クリック時に確認するかを選択してください' }
+        );
+        if (!confirmPick) {
+            return undefined;
+        }
+
+        return {
+            kind,
+            target,
+            args,
+            icon: iconInput.trim().replace(/^\$\((.*)\)$/, '$1') || undefined,
+            confirm: confirmPick.confirm || undefined,
+        };
+    };
+
+    const addAction = async (node?: ExplorerNode) => {
+        const action = await promptAction();
+        if (!action) {
+            return;
+        }
+
+        const label = await vscode.window.showInputBox({
+            prompt: 'アクションの名前を入力してください',
+            value: action.kind === 'url' ? action.target : `${ACTION_KINDS[action.kind].label}: ${action.target}`,
+        });
+        if (!label?.trim()) {
+            return;
+        }
+
+        const created = treeDataProvider.addAction(label.trim(), action, node?.type === 'group' ? node : undefined);
+        await treeView.reveal(created, { select: true, focus: false, expand: true });
+    };
+
+    const editAction = async (node: ExplorerNode) => {
+        if (node?.type !== 'action') {
+            return;
+        }
+        const action = await promptAction(node.action);
+        if (!action) {
+            return;
+        }
+        treeDataProvider.updateAction(node, action);
+    };
+
+    const runAction = async (node: ExplorerNode) => {
+        const action = node?.action;
+        if (node?.type !== 'action' || !action) {
+            return;
+        }
+
+        if (node.external && !vscode.workspace.isTrusted) {
+            void vscode.window.showWarningMessage(
+                `"${node.label}" は共有定義ファイルまたはインポートした JSON のアクションのため、信頼されていないワークスペースでは実行できません。`
+            );
+            return;
+        }
+
+        if (action.confirm || node.external) {
+            const source = node.external ? '\n\n共有定義ファイルまたはインポートした JSON で定義されたアクションです。' : '';
+            const answer = await vscode.window.showWarningMessage(
+                `"${node.label}" を実行しますか?`,
+                { modal: true, detail: `${ACTION_KINDS[action.kind].label}: ${action.target}${source}` },
+                '実行'
+            );
+            if (answer !== '実行') {
+                return;
+            }
+        }
+
+        try {
+            switch (action.kind) {
+                case 'command':
+                    await vscode.commands.executeCommand(action.target, ...(action.args ?? []));
+                    break;
+                case 'task': {
+                    const task = (await vscode.tasks.fetchTasks()).find(({ name }) => name === action.target);
+                    if (!task) {
+                        throw new Error(`タスク "${action.target}" が見つかりません。`);
+                    }
+                    await vscode.tasks.executeTask(task);
+                    break;
+                }
+                case 'launch': {
+                    const config = getLaunchConfigurations().find(({ name }) => name === action.target);
+                    if (!config) {
+                        throw new Error(`デバッグ構成 "${action.target}" が見つかりません。`);
+                    }
+                    if (!await vscode.debug.startDebugging(config.folder, action.target)) {
+                        throw new Error(`デバッグ構成 "${action.target}" を開始できませんでした。`);
+                    }
+                    break;
+                }
+                case 'url': {
+                    // スキームを持つものは外部で開き、それ以外はワークスペース内のドキュメントとして開く
+                    if (/^[a-z][\w+.-]*:/i.test(action.target) && !path.isAbsolute(action.target)) {
+                        await vscode.env.openExternal(vscode.Uri.parse(action.target));
+                        break;
+                    }
+                    const fsPath = treeDataProvider.resolveActionPath(action.target);
+                    if (!fs.existsSync(fsPath)) {
+                        throw new Error(`${action.target} が見つかりません。`);
+                    }
+                    const uri = vscode.Uri.file(fsPath);
+                    if (/\.html?$/i.test(fsPath)) {
+                        await vscode.env.openExternal(uri);
+                    } else if (/\.md$/i.test(fsPath)) {
+                        await vscode.commands.executeCommand('markdown.showPreview', uri);
+                    } else {
+                        await vscode.commands.executeCommand('vscode.open', uri);
+                    }
+                    break;
+                }
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            void vscode.window.showErrorMessage(`アクションの実行に失敗しました: ${message}`);
+        }
+    };
+
+    // --- 外観 ---
+
+    const pickAppearanceIcon = async (current?: string): Promise<string | undefined> => {
+        const customItem = { label: '$(edit) その他のアイコン名を入力...', icon: undefined as string | undefined };
+        const resetItem = { label: '$(discard) 既定のアイコンに戻す', icon: '' };
+        const picked = await vscode.window.showQuickPick(
+            [
+                ...APPEARANCE_ICONS.map(icon => ({ label: `$(${icon}) ${icon}`, description: icon === current ? '現在の設定' : undefined, icon })),
+                { label: '', kind: vscode.QuickPickItemKind.Separator, icon: undefined },
+                customItem,
+                resetItem,
+            ],
+            { title: '外観: アイコン', placeHolder: 'アイコンを選択してください', matchOnDescription: true }
+        );
+        if (!picked) {
+            return undefined;
+        }
+        if (picked !== customItem) {
+            return picked.icon;
+        }
+
+        const input = await vscode.window.showInputBox({
+            title: '外観: アイコン',
+            prompt: 'codicon の名前を入力してください（例: rocket）',
+            value: current,
+        });
+        return input?.trim().replace(/^\$\((.*)\)$/, '$1');
+    };
+
+    const pickAppearanceColor = async (current?: string): Promise<string | undefined> => {
+        const customItem = { label: '$(edit) テーマカラーの ID を入力...', color: undefined as string | undefined };
+        const resetItem = { label: '$(discard) 色を付けない', color: '' };
+        const picked = await vscode.window.showQuickPick(
+            [
+                ...APPEARANCE_COLORS.map(({ id, label }) => ({
+                    label: `$(circle-filled) ${label}`,
+                    description: id === current ? `${id} · 現在の設定` : id,
+                    iconPath: new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor(id)),
+                    color: id,
+                })),
+                { label: '', kind: vscode.QuickPickItemKind.Separator, color: undefined },
+                customItem,
+                resetItem,
+            ],
+            { title: '外観: 色', placeHolder: '色を選択してください' }
+        );
+        if (!picked) {
+            return undefined;
+        }
+        if (picked !== customItem) {
+            return picked.color;
+        }
+
+        const input = await vscode.window.showInputBox({
+            title: '外観: 色',
+            prompt: 'テーマカラーの ID を入力してください（例: terminal.ansiCyan）',
+            value: current,
+        });
+        return input?.trim();
+    };
+
+    const editAppearance = async (node: ExplorerNode) => {
+        if (!node || !treeDataProvider.canAnnotateNode(node)) {
+            return;
+        }
+        const appearance = node.appearance ?? {};
+        const canStyle = treeDataProvider.canStyleNode(node);
+
+        type AppearancePickItem = vscode.QuickPickItem & { key: keyof NodeAppearance | 'reset' };
+        const items: AppearancePickItem[] = [
+            { label: '$(tag) 表示名', description: appearance.alias ?? `(${node.label})`, key: 'alias' },
+            { label: '$(note) 説明', description: appearance.description ?? '(既定)', key: 'description' },
+        ];
+        if (canStyle) {
+            items.push(
+                { label: '$(symbol-misc) アイコン', description: appearance.icon ?? '(既定)', key: 'icon' },
+                { label: '$(symbol-color) 色', description: appearance.color ?? '(なし)', key: 'color' },
+            );
+        }
+        items.push({ label: '$(discard) すべて既定に戻す', key: 'reset' });
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `外観: ${treeDataProvider.getDisplayLabel(node)}`,
+            placeHolder: '変更する項目を選択してください',
+        });
+        if (!picked) {
+            return;
+        }
+
+        switch (picked.key) {
+            case 'reset':
+                treeDataProvider.setAppearance(node, { alias: undefined, description: undefined, icon: undefined, color: undefined });
+                return;
+            case 'alias':
+            case 'description': {
+                const input = await vscode.window.showInputBox({
+                    title: picked.key === 'alias' ? '外観: 表示名' : '外観: 説明',
+                    prompt: picked.key === 'alias'
+                        ? 'ツリーに表示する名前を入力してください（空欄で元の名前に戻します。実ファイル名は変わりません）'
+                        : 'ラベルの横に表示する説明を入力してください（空欄で既定に戻します）',
+                    value: appearance[picked.key],
+                });
+                if (input === undefined) {
+                    return;
+                }
+                treeDataProvider.setAppearance(node, { [picked.key]: input.trim() });
+                return;
+            }
+            case 'icon': {
+                const icon = await pickAppearanceIcon(appearance.icon);
+                if (icon !== undefined) {
+                    treeDataProvider.setAppearance(node, { icon });
+                }
+                return;
+            }
+            case 'color': {
+                const color = await pickAppearanceColor(appearance.color);
+                if (color !== undefined) {
+                    treeDataProvider.setAppearance(node, { color });
+                }
+                return;
+            }
+        }
+    };
+
+    // --- 問題 (診断) ---
+
+    const showProblemsInGroup = async (node: ExplorerNode) => {
+        if (!node) {
+            return;
+        }
+        const severities = Object.keys(PROBLEM_SEVERITIES) as ProblemSeverity[];
+        const rank = (diagnostic: vscode.Diagnostic) =>
+            severities.findIndex(severity => PROBLEM_SEVERITIES[severity].severity === diagnostic.severity);
+        const problems = decorationProvider.collectProblems(node).sort((a, b) =>
+            rank(a.diagnostic) - rank(b.diagnostic)
+            || a.uri.fsPath.localeCompare(b.uri.fsPath)
+            || a.diagnostic.range.start.compareTo(b.diagnostic.range.start));
+        if (problems.length === 0) {
+            void vscode.window.showInformationMessage(`"${treeDataProvider.getDisplayLabel(node)}" 配下に問題はありません。`);
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            problems.map(({ uri, diagnostic }) => ({
+                label: `$(${PROBLEM_SEVERITIES[severities[rank(diagnostic)]]?.icon ?? 'circle-outline'}) ${diagnostic.message.split('\n')[0]}`,
+                description: `${vscode.workspace.asRelativePath(uri)}:${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1}`,
+                detail: [diagnostic.source, typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code]
+                    .filter(value => value !== undefined && value !== '').join(' ') || undefined,
+                uri,
+                diagnostic,
+            })),
+            {
+                title: `問題: ${treeDataProvider.getDisplayLabel(node)} (${problems.length} 件)`,
+                placeHolder: '移動する問題を選択してください',
+                matchOnDescription: true,
+                matchOnDetail: true,
+            }
+        );
+        if (!picked) {
+            return;
+        }
+        await vscode.commands.executeCommand('vscode.open', picked.uri, { selection: picked.diagnostic.range });
+    };
+
+    // --- コマンド定義テーブル ---
+    const commandTable: [string, (...args: any[]) => any][] = [
+        ['customExplorer.importFromWorkspace', (node?: ExplorerNode) => importFromWorkspace(node)],
+        ['customExplorer.addToGroup', (uri?: vscode.Uri, uris?: unknown) => addResourcesToGroup(uri, uris)],
+        ['customExplorer.addActiveEditor', () => addResourcesToGroup()],
+        ['customExplorer.addSelectionBookmark', () => addSelectionBookmark()],
+        ['customExplorer.addSymbolRef', () => addSymbolRef()],
+        ['customExplorer.addAction', (node?: ExplorerNode) => addAction(node)],
+        ['customExplorer.editAction', (node: ExplorerNode) => editAction(node)],
+        ['customExplorer.runAction', (node: ExplorerNode) => runAction(node)],
+        ['customExplorer.editAppearance', (node: ExplorerNode) => editAppearance(node)],
+        ['customExplorer.editNote', (node: ExplorerNode) => editNote(node)],
+        ['customExplorer.removeNote', (node: ExplorerNode) => removeNote(node)],
+        ['customExplorer.showProblemsInGroup', (node: ExplorerNode) => showProblemsInGroup(node)],
+        ['customExplorer.openSymbol', (node: ExplorerNode) => openSymbol(node)],
+        ['customExplorer.resolveSymbol', (node: ExplorerNode) => reresolveSymbol(node)],
+
+        ['customExplorer.addGroup', async (node?: ExplorerNode) => {
+            const label = await vscode.window.showInputBox({ prompt: 'グループ名を入力してください' });
+            if (!label) return;
+            treeDataProvider.addGroup(label, node);
+        }],
+
+        ['customExplorer.addGroupToRoot', async () => {
+            const label = await vscode.window.showInputBox({ prompt: 'グループ名を入力してください' });
+            if (!label) return;
+            treeDataProvider.addGroup(label, undefined);
+        }],
+
+        ['customExplorer.addQueryGroup', (node?: ExplorerNode) => addQueryGroup(node)],
+        ['customExplorer.editQueryGroup', (node: ExplorerNode) => editQueryGroup(node)],
+        ['customExplorer.addGitGroup', (node?: ExplorerNode) => addGitGroup(node)],
+        ['customExplorer.snapshotGroup', (node: ExplorerNode) => snapshotGroup(node)],
+        ['customExplorer.setSortMode', (node: ExplorerNode) => setSortMode(node)],
+        ['customExplorer.relinkEntry', (node: ExplorerNode) => relinkEntry(node)],
+        ['customExplorer.cleanUpMissing', () => cleanUpMissing()],
+        ['customExplorer.exportJson', (node?: ExplorerNode) => exportJson(node)],
+        ['customExplorer.exportMarkdown', (node?: ExplorerNode) => exportMarkdown(node)],
+        ['customExplorer.importJson', (node?: ExplorerNode) => importJson(node)],
+
+        ['customExplorer.createNewFolder', (node?: ExplorerNode) => {
+            treeDataProvider.addGroup(DEFAULT_GROUP_NAME, node, vscode.TreeItemCollapsibleState.Collapsed);
+        }],
+
+        ['customExplorer.renameEntry', (node: ExplorerNode) => startInlineGroupRename(node)],
+
+        ['customExplorer.removeEntry', async (node?: ExplorerNode, nodes?: ExplorerNode[]) => {
+            const targets = resolveTargets(node, nodes);
+            if (targets.length === 0) return;
+
+            // 子を持つグループや複数項目を取り除いた場合は、元に戻すボタン付きで通知する
+            const isDestructive = targets.length > 1 || targets.some(n => n.type === 'group' && n.children?.length);
+            const removedCount = treeDataProvider.removeNodes(targets);
+            if (removedCount > 0 && isDestructive) {
+                // 通知を閉じるまでに別の操作をした場合は、その操作を誤って元に戻さないようにする
+                const token = treeDataProvider.getHistoryToken();
+                const action = await vscode.window.showInformationMessage(
+                    `${removedCount} 件の項目を取り除きました。`,
+                    '元に戻す'
+                );
+                if (action === '元に戻す' && !treeDataProvider.undoIfLatest(token)) {
+                    void vscode.window.showInformationMessage('取り除いた後に別の操作が行われたため、元に戻せませんでした。');
+                }
+            }
+        }],
+        ['customExplorer.cut', (node?: ExplorerNode, nodes?: ExplorerNode[]) => {
+            treeDataProvider.copyNodes(resolveTargets(node, nodes), true);
+        }],
+        ['customExplorer.copy', (node?: ExplorerNode, nodes?: ExplorerNode[]) => {
+            treeDataProvider.copyNodes(resolveTargets(node, nodes));
+        }],
+        ['customExplorer.paste', (node?: ExplorerNode) => treeDataProvider.paste(node ?? treeView.selection[0])],
+        ['customExplorer.undo', () => treeDataProvider.undo()],
+        ['customExplorer.redo', () => treeDataProvider.redo()],
+
+        ['customExplorer.collapseRecursive', (node: ExplorerNode) => treeDataProvider.collapseRecursive(node)],
+        ['customExplorer.expandRecursive', (node: ExplorerNode) => treeDataProvider.expandRecursive(node)],
+        ['customExplorer.collapseAll', () => treeDataProvider.collapseRecursive(undefined)],
+        ['customExplorer.expandAll', () => treeDataProvider.expandRecursive(undefined)],
+        ['customExplorer.revealActiveFile', () => revealEditorInTree(vscode.window.activeTextEditor, { focus: true, notify: true })],
+        ['customExplorer.convertToGroup', (node: ExplorerNode) => treeDataProvider.convertToGroup(node)],
+        ['customExplorer.filter', () => applyFilter()],
+        ['customExplorer.clearFilter', () => updateFilter(undefined)],
+        ['customExplorer.switchLayout', () => showLayoutSwitcher()],
+        ['customExplorer.createLayout', () => createLayout()],
+        ['customExplorer.duplicateLayout', () => duplicateLayout()],
+        ['customExplorer.renameLayout', () => renameLayout()],
+        ['customExplorer.deleteLayout', () => deleteLayout()],
+        ['customExplorer.createDefinitionFile', async () => {
+            const fsPath = treeDataProvider.createDefinitionFile();
+            if (!fsPath) {
+                void vscode.window.showErrorMessage('共有定義ファイルを作成するにはワークスペースフォルダーを開いてください。');
+                return;
+            }
+            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(fsPath));
+        }],
+
+        // --- 新規作成系 (folder-ref配下で一時ノードを見せつつ拡張側で作成) ---
+        ['customExplorer.newFile', (node: ExplorerNode) => startInlineCreation(node, 'file')],
+        ['customExplorer.newFolder', (node: ExplorerNode) => startInlineCreation(node, 'folder')],
+
+        // --- 実ファイル操作 (組み込みコマンドへ委譲) ---
+        ['customExplorer.renameFile', (node: ExplorerNode) => startInlineFileRename(node)],
+        ['customExplorer.deleteFile', (node?: ExplorerNode, nodes?: ExplorerNode[]) => deleteEntries(resolveTargets(node, nodes))],
+        ['customExplorer.bulkRename', (node?: ExplorerNode, nodes?: ExplorerNode[]) => bulkRename(node, nodes)],
+
+        // --- OS連携・パス操作・開く系 (組み込みコマンドへ委譲) ---
+        ['customExplorer.openToSide', (node?: ExplorerNode, nodes?: ExplorerNode[]) => openToSide(node, nodes)],
+        ['customExplorer.revealInMac', executeStandardCommand('revealFileInOS')],
+        ['customExplorer.revealInWindows', executeStandardCommand('revealFileInOS')],
+        ['customExplorer.revealInLinux', executeStandardCommand('revealFileInOS')],
+        // 「アプリケーションを選択して開く」はエディターの選択を伴うため先頭の1件のみ
+        ['customExplorer.openWith', executeStandardCommand('explorer.openWith', { single: true })],
+        ['customExplorer.openInTerminal', executeStandardCommand('openInTerminal')],
+        ['customExplorer.copyPath', (node?: ExplorerNode, nodes?: ExplorerNode[]) => copyPaths(node, nodes, false)],
+        ['customExplorer.copyRelativePath', (node?: ExplorerNode, nodes?: ExplorerNode[]) => copyPaths(node, nodes, true)],
+    ];
+
+    context.subscriptions.push(
+        ...eventSubscriptions,
+        ...commandTable.map(([id, handler]) => vscode.commands.registerCommand(id, handler)),
+    );
+}
+
+// ---------------------------------------------------------------------------
+// ProblemFileDecorationProvider
+// ---------------------------------------------------------------------------
+
+class ProblemFileDecorationProvider implements vscode.FileDecorationProvider {
+    private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+
+    // グループへ集約するレベル（customExplorer.problems.propagatedSeverities）のキャッシュ
+    private propagatedSeverities?: ProblemSeverity[];
+
+    constructor(private treeDataProvider: CustomTreeDataProvider) { }
+
+    provideFileDecoration(uri: vscode.Uri, _token: vscode.CancellationToken): vscode.ProviderResult<vscode.FileDecoration> {
+        const node = this.treeDataProvider.getNodeByUri(uri);
+        if (!node) return undefined;
+        return this.withAppearanceColor(node, uri, this.getNodeDecoration(node, uri));
+    }
+
+    private getNodeDecoration(node: ExplorerNode, uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (node.missing) {
+            return MISSING_DECORATION;
+        }
+        if (this.treeDataProvider.isRangeRef(node)) {
+            return this.getDiagnosticDecoration(node);
+        }
+        return node.type === 'file-ref'
+            ? this.getDiagnosticDecoration(node, uri)
+            : this.getGroupDecoration(node);
+    }
+
+    /** 設定の変更時に、グループへ集約するレベルを読み直してすべてのデコレーションを更新する */
+    public reloadConfiguration() {
+        this.propagatedSeverities = undefined;
+        this._onDidChangeFileDecorations.fire(undefined);
+    }
+
+    private getPropagatedSeverities(): ProblemSeverity[] {
+        this.propagatedSeverities ??= vscode.workspace.getConfiguration('customExplorer')
+            .get<ProblemSeverity[]>('problems.propagatedSeverities', DEFAULT_PROPAGATED_SEVERITIES)
+            .filter(severity => severity in PROBLEM_SEVERITIES);
+        return this.propagatedSeverities;
+    }
+
+    /**
+     * 外観で指定した色をラベルに付ける。診断・参照切れの色がある場合はそちらを優先し、バッジはそのまま残す。
+     * 実ファイルの URI は標準のエクスプローラーと共有されるため、拡張専用の URI にのみ付ける。
+     */
+    private withAppearanceColor(node: ExplorerNode, uri: vscode.Uri, decoration: vscode.FileDecoration | undefined): vscode.FileDecoration {
+        const color = node.appearance?.color;
+        if (!color || uri.scheme !== URI_SCHEME || decoration?.color) {
+            return decoration ?? new vscode.FileDecoration();
+        }
+        return new vscode.FileDecoration(decoration?.badge, decoration?.tooltip, new vscode.ThemeColor(color));
+    }
+
+    // location-ref / symbol-ref は範囲内の診断のみを対象にする
+    private getNodeDiagnostics(node: ExplorerNode, uri = node.filePath ? vscode.Uri.file(node.filePath) : undefined): vscode.Diagnostic[] {
+        if (!uri) {
+            return [];
+        }
+        const diagnostics = vscode.languages.getDiagnostics(uri);
+        if (!this.treeDataProvider.isRangeRef(node)) {
+            return diagnostics;
+        }
+
+        const range = this.treeDataProvider.getLocationRange(node);
+        return range ? diagnostics.filter(d => d.range.intersection(range) !== undefined) : [];
+    }
+
+    private getDiagnosticDecoration(node: ExplorerNode, uri?: vscode.Uri): vscode.FileDecoration | undefined {
+        const counts = this.countDiagnostics(this.getNodeDiagnostics(node, uri));
+        return this.buildCountDecoration(counts, FILE_BADGE_SEVERITIES, '');
+    }
+
+    // folder-ref 配下のファイルも通常の file-ref と同じく子として集計する
+    private getGroupDecoration(groupNode: ExplorerNode): vscode.FileDecoration | undefined {
+        if (!groupNode.children?.length) return undefined;
+
+        const severities = this.getPropagatedSeverities();
+        const counts = this.countDiagnostics(this.collectProblems(groupNode).map(problem => problem.diagnostic));
+        for (const severity of Object.keys(counts) as ProblemSeverity[]) {
+            if (!severities.includes(severity)) {
+                counts[severity] = 0;
+            }
+        }
+        return this.buildCountDecoration(counts, severities, 'In children: ');
+    }
+
+    /** 最も重大なレベルの件数をバッジ（2文字まで）にし、ツールチップにレベルごとの内訳を出す */
+    private buildCountDecoration(
+        counts: ProblemCounts,
+        badgeSeverities: ProblemSeverity[],
+        tooltipPrefix: string
+    ): vscode.FileDecoration | undefined {
+        const severities = Object.keys(PROBLEM_SEVERITIES) as ProblemSeverity[];
+        const top = severities.find(severity => badgeSeverities.includes(severity) && counts[severity] > 0);
+        if (!top) {
+            return undefined;
+        }
+
+        const breakdown = severities
+            .filter(severity => counts[severity] > 0)
+            .map(severity => `${counts[severity]} ${PROBLEM_SEVERITIES[severity].name}${counts[severity] > 1 ? 's' : ''}`)
+            .join(', ');
+        return new vscode.FileDecoration(
+            counts[top] > 9 ? '9+' : String(counts[top]),
+            tooltipPrefix + breakdown,
+            PROBLEM_SEVERITIES[top].color
+        );
+    }
+
+    private countDiagnostics(diagnostics: readonly vscode.Diagnostic[]): ProblemCounts {
+        const counts: ProblemCounts = { error: 0, warning: 0, information: 0, hint: 0 };
+        const severities = Object.keys(PROBLEM_SEVERITIES) as ProblemSeverity[];
+        for (const diagnostic of diagnostics) {
+            const severity = severities.find(key => PROBLEM_SEVERITIES[key].severity === diagnostic.severity);
+            if (severity) {
+                counts[severity]++;
+            }
+        }
+        return counts;
+    }
+
+    /**
+     * グループ配下（folder-ref の子や動的グループの子を含む）のすべての診断を、ファイルの URI とともに返す。
+     * 同じファイル・範囲を指すノードが複数あっても、同じ診断は1度だけ数える。
+     */
+    public collectProblems(groupNode: ExplorerNode): { uri: vscode.Uri; diagnostic: vscode.Diagnostic }[] {
+        const problems: { uri: vscode.Uri; diagnostic: vscode.Diagnostic }[] = [];
+        const seen = new Set<string>();
+        const visit = (nodes: ExplorerNode[]) => {
+            for (const child of nodes) {
+                if ((child.type === 'file-ref' || this.treeDataProvider.isRangeRef(child)) && child.filePath && !child.missing) {
+                    const uri = vscode.Uri.file(child.filePath);
+                    for (const diagnostic of this.getNodeDiagnostics(child, uri)) {
+                        const { start, end } = diagnostic.range;
+                        const key = `${uri.fsPath}:${start.line}:${start.character}:${end.line}:${end.character}:${diagnostic.severity}:${diagnostic.message}`;
+                        if (seen.has(key)) {
+                            continue;
+                        }
+                        seen.add(key);
+                        problems.push({ uri, diagnostic });
+                    }
+                } else if (this.isGroupLike(child) && child.children) {
+                    visit(child.children);
+                }
+            }
+        };
+        visit(groupNode.children ?? []);
+        return problems;
+    }
+
+    private isGroupLike(node: ExplorerNode): boolean {
+        return node.type === 'group'
+            || node.type === 'folder-ref'
+            || node.type === 'query-group'
+            || node.type === 'git-group'
+            || node.type === 'live-section';
+    }
+
+    public refreshDecorations(uris: vscode.Uri[]) {
+        this._onDidChangeFileDecorations.fire(uris);
+    }
+
+    public handleDiagnosticsChange(uris: ReadonlyArray<vscode.Uri>) {
+        const urisToUpdate = new Set<string>();
+
+        for (const uri of uris) {
+            urisToUpdate.add(uri.toString());
+
+            // 同じファイルを指す location-ref / symbol-ref も範囲内の診断が変わっている可能性がある
+            const locationRefs = uri.scheme === 'file' ? this.treeDataProvider.getLocationRefs(uri.fsPath) : [];
+            locationRefs.forEach(ref => urisToUpdate.add(this.treeDataProvider.getDisplayUri(ref).toString()));
+
+            // 同じファイルが file-ref と folder-ref の子の両方にある場合も、すべての先祖を更新する
+            const fileNodes = uri.scheme === 'file' ? this.treeDataProvider.getNodesByPath(uri.fsPath) : [];
+            for (const node of [...fileNodes, ...locationRefs]) {
+                let parent = this.treeDataProvider.getParent(node);
+                while (parent) {
+                    urisToUpdate.add(this.treeDataProvider.getDisplayUri(parent).toString());
+                    urisToUpdate.add(this.treeDataProvider.getGroupUri(parent).toString());
+                    parent = this.treeDataProvider.getParent(parent);
+                }
+            }
+        }
+
+        this._onDidChangeFileDecorations.fire(
+            Array.from(urisToUpdate).map(u => vscode.Uri.parse(u))
+        );
+    }
+}
+
+// ---------------------------------------------------------------------------
+// GitChangeSource
+// ---------------------------------------------------------------------------
+
+/**
+ * 組み込みの vscode.git 拡張から、変更・ステージ済み・未追跡・ref との差分のファイル一覧を取得する。
+ * いずれかのリポジトリの状態が変わると onDidChange を発火する。
+ */
+class GitChangeSource implements vscode.Disposable {
+    private api?: GitAPI;
+    private subscriptions: vscode.Disposable[] = [];
+    private repositorySubscriptions: Map<GitRepository, vscode.Disposable> = new Map();
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        void this.initialize();
+    }
+
+    private async initialize(): Promise<void> {
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!extension) {
+            return;
+        }
+
+        try {
+            const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+            this.subscriptions.push(gitExtension.onDidChangeEnablement(enabled => {
+                if (enabled) {
+                    this.attach(gitExtension.getAPI(1));
+                }
+            }));
+            if (gitExtension.enabled) {
+                this.attach(gitExtension.getAPI(1));
+            }
+        } catch (err) {
+            console.error('Failed to activate vscode.git extension:', err);
+        }
+    }
+
+    private attach(api: GitAPI): void {
+        if (this.api) {
+            return;
+        }
+        this.api = api;
+        api.repositories.forEach(repository => this.watchRepository(repository));
+        this.subscriptions.push(
+            api.onDidOpenRepository(repository => {
+                this.watchRepository(repository);
+                this._onDidChange.fire();
+            }),
+            api.onDidCloseRepository(repository => {
+                this.repositorySubscriptions.get(repository)?.dispose();
+                this.repositorySubscriptions.delete(repository);
+                this._onDidChange.fire();
+            }),
+        );
+        this._onDidChange.fire();
+    }
+
+    private watchRepository(repository: GitRepository): void {
+        if (this.repositorySubscriptions.has(repository)) {
+            return;
+        }
+        this.repositorySubscriptions.set(repository, repository.state.onDidChange(() => this._onDidChange.fire()));
+    }
+
+    /** 全リポジトリを対象に、条件に一致する既存ファイルの実パスを返す（削除されたファイルは除く） */
+    public async getFiles(query: GitQuery): Promise<string[]> {
+        if (!this.api) {
+            throw new Error('Git が利用できません');
+        }
+
+        const files = new Set<string>();
+        let lastError: unknown;
+        let succeeded = 0;
+        for (const repository of this.api.repositories) {
+            let changes: GitChange[];
+            try {
+                changes = await this.getChanges(repository, query);
+                succeeded++;
+            } catch (error) {
+                // ref が一部のリポジトリにしか存在しない場合は、存在するリポジトリの結果だけを使う
+                lastError = error;
+                continue;
+            }
+            for (const change of changes) {
+                if (change.status === GIT_STATUS.DELETED || change.status === GIT_STATUS.INDEX_DELETED) {
+                    continue;
+                }
+                files.add(change.uri.fsPath);
+            }
+        }
+
+        if (succeeded === 0 && lastError) {
+            throw lastError;
+        }
+        return Array.from(files);
+    }
+
+    private async getChanges(repository: GitRepository, query: GitQuery): Promise<GitChange[]> {
+        const { indexChanges, workingTreeChanges, untrackedChanges = [] } = repository.state;
+        switch (query.kind) {
+            case 'changes':
+                return workingTreeChanges.filter(change => change.status !== GIT_STATUS.UNTRACKED);
+            case 'staged':
+                return indexChanges;
+            case 'untracked':
+                // git.untrackedChanges の設定により、作業ツリーの変更に混在する場合と分離される場合がある
+                return [
+                    ...untrackedChanges,
+                    ...workingTreeChanges.filter(change => change.status === GIT_STATUS.UNTRACKED),
+                ];
+            case 'diff':
+                return query.ref ? repository.diffWith(query.ref) : [];
+        }
+    }
+
+    public dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.repositorySubscriptions.forEach(subscription => subscription.dispose());
+        this.repositorySubscriptions.clear();
+        this._onDidChange.dispose();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// BulkRenameFileSystemProvider
+// ---------------------------------------------------------------------------
+
+/**
+ * 選択したファイル名を1行1件のテキストとして開き、保存時にまとめて名前を変更する仮想ファイルシステム。
+ * 行の順序が対象のファイルに対応し、保存のたびに名前が変わった行だけを名前変更する。
+ */
+class BulkRenameFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
+    private sessions: Map<string, { paths: string[]; content: Uint8Array; mtime: number }> = new Map();
+
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    private _onDidRename = new vscode.EventEmitter<{ oldUri: vscode.Uri; newUri: vscode.Uri }[]>();
+    readonly onDidRename = this._onDidRename.event;
+
+    /** 対象のファイルを登録し、編集用ドキュメントの URI を返す */
+    public open(paths: string[]): vscode.Uri {
+        const sessionId = Math.random().toString(36).substring(2, 10);
+        this.sessions.set(sessionId, {
+            paths,
+            content: Buffer.from(paths.map(fsPath => path.basename(fsPath)).join('\n') + '\n', 'utf8'),
+            mtime: Date.now(),
+        });
+        return vscode.Uri.from({ scheme: BULK_RENAME_SCHEME, path: `/${sessionId}/${BULK_RENAME_FILE_NAME}` });
+    }
+
+    public close(uri: vscode.Uri): void {
+        this.sessions.delete(this.getSessionId(uri));
+    }
+
+    private getSessionId(uri: vscode.Uri): string {
+        return uri.path.split('/')[1] ?? '';
+    }
+
+    private getSession(uri: vscode.Uri) {
+        const session = this.sessions.get(this.getSessionId(uri));
+        if (!session) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return session;
+    }
+
+    // --- FileSystemProvider実装 ---
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => undefined);
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const session = this.getSession(uri);
+        return { type: vscode.FileType.File, ctime: session.mtime, mtime: session.mtime, size: session.content.byteLength };
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        return this.getSession(uri).content;
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const session = this.getSession(uri);
+        const names = Buffer.from(content).toString('utf8').split(/\r?\n/).map(line => line.trim());
+        while (names.length > session.paths.length && names[names.length - 1] === '') {
+            names.pop();
+        }
+
+        if (names.length !== session.paths.length) {
+            throw vscode.FileSystemError.NoPermissions(
+                `行数 (${names.length}) が名前変更の対象 (${session.paths.length} 件) と一致しません。`
+            );
+        }
+        const invalid = names.find(name => !name || name === '.' || name === '..' || /[\\/]/.test(name));
+        if (invalid !== undefined) {
+            throw vscode.FileSystemError.NoPermissions(`"${invalid}" はファイル名として使用できません。`);
+        }
+
+        const newPaths = session.paths.map((fsPath, i) => path.join(path.dirname(fsPath), names[i]));
+        if (new Set(newPaths).size !== newPaths.length) {
+            throw vscode.FileSystemError.NoPermissions('同じフォルダー内で名前が重複しています。');
+        }
+
+        const renames = session.paths
+            .map((fsPath, i) => ({ index: i, from: fsPath, to: newPaths[i] }))
+            .filter(rename => rename.from !== rename.to);
+        await this.applyRenames(session, renames);
+
+        session.paths = newPaths;
+        session.content = content;
+        session.mtime = Date.now();
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+
+    /**
+     * 対象同士で名前を入れ替える場合は、一時的な名前を経由して衝突を避ける。
+     * 途中で失敗した場合は一時的な名前の項目を元に戻し、変更できた項目だけを session に反映して失敗した項目を報告する
+     */
+    private async applyRenames(
+        session: { paths: string[] },
+        renames: { index: number; from: string; to: string }[]
+    ): Promise<void> {
+        const sources = new Set(renames.map(rename => rename.from));
+        for (const rename of renames) {
+            const isCaseOnly = rename.from.toLowerCase() === rename.to.toLowerCase();
+            if (!sources.has(rename.to) && !isCaseOnly && fs.existsSync(rename.to)) {
+                throw vscode.FileSystemError.FileExists(`"${path.basename(rename.to)}" は既に存在します。`);
+            }
+        }
+
+        const completed: { index: number; from: string; to: string }[] = [];
+        const staged: { rename: { index: number; from: string; to: string }; temp: string }[] = [];
+        try {
+            for (const rename of renames) {
+                if (sources.has(rename.to)) {
+                    const temp = `${rename.from}.${Date.now().toString(36)}.rename`;
+                    await vscode.workspace.fs.rename(vscode.Uri.file(rename.from), vscode.Uri.file(temp));
+                    staged.push({ rename, temp });
+                    continue;
+                }
+                await vscode.workspace.fs.rename(vscode.Uri.file(rename.from), vscode.Uri.file(rename.to));
+                completed.push(rename);
+            }
+            while (staged.length) {
+                const { rename, temp } = staged[0];
+                await vscode.workspace.fs.rename(vscode.Uri.file(temp), vscode.Uri.file(rename.to));
+                staged.shift();
+                completed.push(rename);
+            }
+        } catch (error) {
+            // 一時的な名前のまま残った項目を元の名前に戻す
+            const unrestored: string[] = [];
+            for (const { rename, temp } of staged) {
+                try {
+                    await vscode.workspace.fs.rename(vscode.Uri.file(temp), vscode.Uri.file(rename.from));
+                } catch {
+                    unrestored.push(path.basename(temp));
+                }
+            }
+
+            const failed = renames.filter(rename => !completed.includes(rename));
+            const reason = error instanceof Error ? error.message : String(error);
+            throw vscode.FileSystemError.NoPermissions(
+                `次の ${failed.length} 件の名前を変更できませんでした: ${failed.map(rename => path.basename(rename.from)).join(', ')} (${reason})`
+                + (unrestored.length ? `\n元の名前に戻せなかった項目: ${unrestored.join(', ')}` : '')
+            );
+        } finally {
+            if (completed.length) {
+                // 再度保存したときに変更済みの項目を元の名前で探さないよう、変更できた分だけ反映する
+                for (const rename of completed) {
+                    session.paths[rename.index] = rename.to;
+                }
+                this._onDidRename.fire(completed.map(rename => ({
+                    oldUri: vscode.Uri.file(rename.from),
+                    newUri: vscode.Uri.file(rename.to),
+                })));
+            }
+        }
+    }
+
+    public dispose(): void {
+        this.sessions.clear();
+        this._onDidChangeFile.dispose();
+        this._onDidRename.dispose();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// NoteFileSystemProvider
+// ---------------------------------------------------------------------------
+
+/**
+ * ノードのメモを Markdown の仮想ドキュメント (custom-explorer://note/<id>/<名前>.md) として開き、保存時にノードへ書き戻す。
+ * ノードの ID は展開状態の一括変更などで振り直されるため、開いた時点のノードを URI ごとに保持する。
+ */
+class NoteFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
+    private notes: Map<string, { node: ExplorerNode; mtime: number }> = new Map();
+
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    constructor(private treeDataProvider: CustomTreeDataProvider) { }
+
+    /** ノードを登録し、メモ編集用ドキュメントの URI を返す。同じノードは同じ URI になる */
+    public open(node: ExplorerNode): vscode.Uri {
+        const key = Array.from(this.notes).find(([, entry]) => entry.node === node)?.[0] ?? node.id;
+        this.notes.set(key, { node, mtime: Date.now() });
+        const fileName = this.treeDataProvider.getDisplayLabel(node).replace(/[\\/:*?"<>|]/g, '_');
+        return vscode.Uri.from({ scheme: URI_SCHEME, authority: 'note', path: `/${key}/${fileName}.md` });
+    }
+
+    public close(uri: vscode.Uri): void {
+        if (uri.scheme === URI_SCHEME && uri.authority === 'note') {
+            this.notes.delete(this.getKey(uri));
+        }
+    }
+
+    private getKey(uri: vscode.Uri): string {
+        return uri.path.split('/')[1] ?? '';
+    }
+
+    private getEntry(uri: vscode.Uri) {
+        const entry = uri.authority === 'note' ? this.notes.get(this.getKey(uri)) : undefined;
+        if (!entry) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return entry;
+    }
+
+    // --- FileSystemProvider実装 ---
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => undefined);
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const entry = this.getEntry(uri);
+        return { type: vscode.FileType.File, ctime: entry.mtime, mtime: entry.mtime, size: Buffer.byteLength(entry.node.note ?? '', 'utf8') };
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        return Buffer.from(this.getEntry(uri).node.note ?? '', 'utf8');
+    }
+
+    writeFile(uri: vscode.Uri, content: Uint8Array): void {
+        const entry = this.getEntry(uri);
+        if (!this.treeDataProvider.setNote(entry.node, Buffer.from(content).toString('utf8'))) {
+            throw vscode.FileSystemError.Unavailable('メモの対象の項目がツリーから取り除かれています。');
+        }
+        entry.mtime = Date.now();
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+
+    public dispose(): void {
+        this.notes.clear();
+        this._onDidChangeFile.dispose();
+    }
+}
+
+// ---------------------------------------------------------------------------
+// DefinitionFileStore
+// ---------------------------------------------------------------------------
+
+/**
+ * チーム共有用のツリー定義ファイル (既定: .vscode/custom-explorer.json) の読み書きと監視を行う。
+ * パスはワークスペースフォルダーからの相対パスで保存し、ファイルが存在する場合のみ同期する。
+ */
+class DefinitionFileStore implements vscode.Disposable {
+    private watcher?: vscode.FileSystemWatcher;
+    private lastSyncedContent?: string;
+
+    constructor(private onDidChangeOnDisk: () => void) {
+        this.setupWatcher();
+    }
+
+    private get baseDir(): string | undefined {
+        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
+
+    private get relativeFilePath(): string {
+        return vscode.workspace.getConfiguration('customExplorer').get<string>('definitionFile')?.trim()
+            || DEFAULT_DEFINITION_FILE;
+    }
+
+    public get fsPath(): string | undefined {
+        const relativePath = this.relativeFilePath;
+        if (path.isAbsolute(relativePath)) {
+            return relativePath;
+        }
+        const baseDir = this.baseDir;
+        return baseDir ? path.join(baseDir, relativePath) : undefined;
+    }
+
+    public exists(): boolean {
+        const fsPath = this.fsPath;
+        return Boolean(fsPath && fs.existsSync(fsPath));
+    }
+
+    // --- 監視 ---
+
+    private setupWatcher(): void {
+        const fsPath = this.fsPath;
+        if (!fsPath) {
+            return;
+        }
+
+        const pattern = new vscode.RelativePattern(vscode.Uri.file(path.dirname(fsPath)), path.basename(fsPath));
+        this.watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        const handleChange = () => {
+            // 自分自身の書き込みによる変更通知は無視する
+            if (this.readContent() === this.lastSyncedContent) {
+                return;
+            }
+            this.onDidChangeOnDisk();
+        };
+        this.watcher.onDidCreate(handleChange);
+        this.watcher.onDidChange(handleChange);
+        this.watcher.onDidDelete(() => { this.lastSyncedContent = undefined; });
+    }
+
+    /** 設定変更でファイルパスが変わった場合に監視をやり直す */
+    public reset(): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        this.lastSyncedContent = undefined;
+        this.setupWatcher();
+    }
+
+    public dispose(): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+    }
+
+    // --- 読み込み ---
+
+    private readContent(): string | undefined {
+        const fsPath = this.fsPath;
+        if (!fsPath) {
+            return undefined;
+        }
+        try {
+            return fs.readFileSync(fsPath, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** 定義ファイルを読み込み、絶対パスに解決したレイアウトを返す。ファイルが無い・不正な場合は undefined */
+    public read(generateId: () => string): LayoutMap | undefined {
+        const content = this.readContent();
+        if (content === undefined) {
+            return undefined;
+        }
+
+        try {
+            const definition = JSON.parse(content) as SharedDefinition;
+            const sharedLayouts = Array.isArray(definition?.layouts) ? definition.layouts
+                : Array.isArray(definition?.nodes) ? [{ name: DEFAULT_LAYOUT_NAME, nodes: definition.nodes }]
+                    : undefined;
+            if (!sharedLayouts?.length) {
+                throw new Error('"layouts" 配列がありません。');
+            }
+
+            const layouts: LayoutMap = new Map();
+            for (const layout of sharedLayouts) {
+                if (!layout?.name || !Array.isArray(layout.nodes) || layouts.has(layout.name)) {
+                    continue;
+                }
+                layouts.set(layout.name, layout.nodes
+                    .map(node => this.fromSharedNode(node, generateId))
+                    .filter((node): node is ExplorerNode => node !== undefined));
+            }
+            if (layouts.size === 0) {
+                throw new Error('有効なレイアウトがありません。');
+            }
+            return layouts;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            void vscode.window.showWarningMessage(`共有定義ファイルを読み込めませんでした: ${message}`);
+            return undefined;
+        }
+    }
+
+    /** エクスポートなど定義ファイル以外の JSON 文書からノードを復元する。ID は新たに採番する */
+    public fromSharedNodes(nodes: SharedNode[], generateId: () => string): ExplorerNode[] {
+        return nodes
+            .map(node => this.fromSharedNode(node, generateId))
+            .filter((node): node is ExplorerNode => node !== undefined);
+    }
+
+    private fromSharedNode(shared: SharedNode, generateId: () => string): ExplorerNode | undefined {
+        const node = this.fromSharedNodeByType(shared, generateId);
+        const appearance = this.toAppearance(shared.appearance);
+        if (node && appearance) {
+            node.appearance = appearance;
+        }
+        if (node && typeof shared.note === 'string' && shared.note.trim()) {
+            node.note = shared.note;
+        }
+        return node;
+    }
+
+    // 文字列以外の値や空文字を取り除き、何も残らなければ undefined を返す
+    private toAppearance(appearance: NodeAppearance | undefined): NodeAppearance | undefined {
+        if (!appearance || typeof appearance !== 'object') {
+            return undefined;
+        }
+        const entries = (['alias', 'description', 'icon', 'color'] as const)
+            .filter(key => typeof appearance[key] === 'string' && appearance[key] !== '')
+            .map(key => [key, appearance[key]]);
+        return entries.length ? Object.fromEntries(entries) : undefined;
+    }
+
+    private fromSharedNodeByType(shared: SharedNode, generateId: () => string): ExplorerNode | undefined {
+        if (!shared || typeof shared !== 'object') {
+            return undefined;
+        }
+        const location = typeof shared.path === 'string' ? this.fromSharedLocation(shared) : undefined;
+        const fsPath = location?.fsPath;
+        const label = shared.label || (fsPath ? path.basename(fsPath) : DEFAULT_GROUP_NAME);
+        const sortMode = shared.sort && shared.sort in SORT_MODES && shared.sort !== 'inherit' ? shared.sort : undefined;
+
+        switch (shared.type) {
+            case 'file-ref':
+                return location
+                    ? { id: generateId(), label, type: 'file-ref', filePath: fsPath, ...location.pair }
+                    : undefined;
+            case 'location-ref':
+                return location && DefinitionFileStore.isValidRange(shared.range)
+                    ? { id: generateId(), label, type: 'location-ref', filePath: fsPath, ...location.pair, range: shared.range }
+                    : undefined;
+            case 'symbol-ref':
+                return location && typeof shared.symbol?.name === 'string' && Number.isInteger(shared.symbol.kind)
+                    ? {
+                        id: generateId(),
+                        label,
+                        type: 'symbol-ref',
+                        filePath: fsPath,
+                        ...location.pair,
+                        symbol: {
+                            name: shared.symbol.name,
+                            kind: shared.symbol.kind,
+                            containerPath: Array.isArray(shared.symbol.containerPath) ? shared.symbol.containerPath : [],
+                        },
+                        range: DefinitionFileStore.isValidRange(shared.range) ? shared.range : undefined,
+                    }
+                    : undefined;
+            case 'action':
+                return shared.action?.kind && shared.action.kind in ACTION_KINDS && typeof shared.action.target === 'string'
+                    ? {
+                        id: generateId(),
+                        label: shared.label || shared.action.target,
+                        type: 'action',
+                        external: true,
+                        action: {
+                            kind: shared.action.kind,
+                            target: shared.action.target,
+                            args: Array.isArray(shared.action.args) ? shared.action.args : undefined,
+                            icon: typeof shared.action.icon === 'string' ? shared.action.icon : undefined,
+                            confirm: shared.action.confirm === true || undefined,
+                        },
+                    }
+                    : undefined;
+            case 'folder-ref':
+                return location
+                    ? {
+                        id: generateId(),
+                        label,
+                        type: 'folder-ref',
+                        linkedPath: fsPath,
+                        ...location.pair,
+                        // folder-ref の子は再スキャンされるため手動の並び順は持てない
+                        sortMode: sortMode === 'manual' ? undefined : sortMode,
+                        children: [],
+                        collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+                    }
+                    : undefined;
+            case 'query-group':
+                return Array.isArray(shared.query?.include)
+                    ? {
+                        id: generateId(),
+                        label,
+                        type: 'query-group',
+                        linkedPath: fsPath,
+                        ...location?.pair,
+                        query: { include: shared.query.include, exclude: shared.query.exclude ?? [] },
+                        children: [],
+                        collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+                    }
+                    : undefined;
+            case 'git-group':
+                return shared.git?.kind && shared.git.kind in GIT_GROUP_KINDS
+                    ? {
+                        id: generateId(),
+                        label,
+                        type: 'git-group',
+                        git: { kind: shared.git.kind, ref: shared.git.ref },
+                        children: [],
+                        collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+                    }
+                    : undefined;
+            case 'group':
+                return {
+                    id: generateId(),
+                    label,
+                    type: 'group',
+                    filePath: fsPath,
+                    ...location?.pair,
+                    sortMode,
+                    children: (shared.children ?? [])
+                        .map(child => this.fromSharedNode(child, generateId))
+                        .filter((node): node is ExplorerNode => node !== undefined),
+                    collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+                };
+            default:
+                return undefined;
+        }
+    }
+
+    // 保存データの復元 (LayoutStorage) でも同じ基準で検証する
+    public static isValidRange(range: LocationRange | undefined): range is LocationRange {
+        return !!range && typeof range === 'object' && [range.startLine, range.startCharacter, range.endLine, range.endCharacter]
+            .every(value => Number.isInteger(value) && value >= 0);
+    }
+
+    /**
+     * 相対パスはワークスペースフォルダーとの組として復元する。
+     * フォルダーが開かれていない場合の絶対パスは仮のもので、読み込み後に CustomTreeDataProvider が孤立扱いにする。
+     */
+    private fromSharedLocation(shared: SharedNode): {
+        fsPath: string;
+        pair?: Pick<StoredNode, 'workspaceFolder' | 'relativePath'>;
+    } {
+        const sharedPath = shared.path ?? '';
+        if (path.isAbsolute(sharedPath)) {
+            return { fsPath: sharedPath };
+        }
+
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const folderName = shared.folder ?? folders[0]?.name;
+        if (!folderName) {
+            return { fsPath: sharedPath };
+        }
+
+        const folder = folders.find(f => f.name === folderName);
+        const baseDir = folder?.uri.fsPath ?? this.baseDir ?? '';
+        return {
+            fsPath: path.join(baseDir, ...sharedPath.split('/')),
+            pair: { workspaceFolder: folderName, relativePath: sharedPath },
+        };
+    }
+
+    // --- 書き込み ---
+
+    /**
+     * ツリーを定義ファイルへ書き戻す。
+     * force が false の場合は定義ファイルが既に存在するときのみ書き込む（オプトイン方式）。
+     */
+    public write(layouts: LayoutMap, force = false): void {
+        const fsPath = this.fsPath;
+        if (!fsPath || (!force && !fs.existsSync(fsPath))) {
+            return;
+        }
+
+        const content = this.serialize(layouts);
+        if (content === this.lastSyncedContent && !force) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(path.dirname(fsPath), { recursive: true });
+            fs.writeFileSync(fsPath, content, 'utf8');
+            this.lastSyncedContent = content;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            void vscode.window.showErrorMessage(`共有定義ファイルの書き込みに失敗しました: ${message}`);
+        }
+    }
+
+    /** ディスク上の内容と現在のツリーが同期済みであることを記録する（再読み込み直後の書き戻しを防ぐ） */
+    public markSynced(layouts: LayoutMap): void {
+        this.lastSyncedContent = this.serialize(layouts);
+    }
+
+    private serialize(layouts: LayoutMap): string {
+        const definition: SharedDefinition = {
+            version: DEFINITION_FILE_VERSION,
+            layouts: Array.from(layouts, ([name, nodes]) => ({
+                name,
+                nodes: nodes.map(node => this.toSharedNode(node)),
+            })),
+        };
+        return JSON.stringify(definition, null, 2) + '\n';
+    }
+
+    public toSharedNodes(nodes: ExplorerNode[]): SharedNode[] {
+        return nodes.map(node => this.toSharedNode(node));
+    }
+
+    private toSharedNode(node: ExplorerNode): SharedNode {
+        const fsPath = node.linkedPath ?? node.filePath;
+        const shared: SharedNode = { type: node.type, label: node.label };
+        if (node.workspaceFolder && node.relativePath !== undefined) {
+            if (node.workspaceFolder !== vscode.workspace.workspaceFolders?.[0]?.name) {
+                shared.folder = node.workspaceFolder;
+            }
+            shared.path = node.relativePath;
+        } else if (fsPath) {
+            shared.path = fsPath;
+        }
+        if (node.query) {
+            shared.query = node.query;
+        }
+        if (node.git) {
+            shared.git = node.git;
+        }
+        if (node.range) {
+            shared.range = node.range;
+        }
+        if (node.symbol) {
+            shared.symbol = node.symbol;
+        }
+        if (node.action) {
+            shared.action = node.action;
+        }
+        if (node.appearance) {
+            shared.appearance = node.appearance;
+        }
+        if (node.note) {
+            shared.note = node.note;
+        }
+        if (node.sortMode) {
+            shared.sort = node.sortMode;
+        }
+        // folder-ref や動的グループの子は読み込み時に再スキャンするため保存しない
+        if (node.type === 'group') {
+            shared.children = (node.children ?? []).map(child => this.toSharedNode(child));
+        }
+        return shared;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// LayoutStorage
+// ---------------------------------------------------------------------------
+
+/**
+ * workspaceState に保存するレイアウトの読み書きを行う。
+ * 保存形式にはバージョンを付け、読み込み時に古い形式から順に移行してから検証する。
+ * 検証できなかった保存データは読み込める部分だけを使い、元のデータをバックアップとして残す。
+ */
+export class LayoutStorage {
+    // id・label・type 以外に保存するノードの項目（cachedTreePath や missing など実行時のみの状態は含めない）
+    private static readonly NODE_KEYS: readonly Exclude<keyof StoredNode, 'id' | 'label' | 'type' | 'children'>[] = [
+        'filePath', 'linkedPath', 'workspaceFolder', 'relativePath', 'query', 'git',
+        'range', 'symbol', 'action', 'external', 'appearance', 'note', 'sortMode', 'collapsibleState', 'expandedDirs',
+    ];
+
+    private static readonly NODE_TYPES: readonly StoredNode['type'][] = [
+        'group', 'file-ref', 'folder-ref', 'location-ref', 'symbol-ref', 'action', 'query-group', 'git-group',
+    ];
+
+    /**
+     * MIGRATIONS[n] は version n の保存データを version n + 1 に移行する。
+     *   0: レイアウト導入前の単一ツリー（customExplorerData に保存したノードの配列）
+     *   1: 名前付きレイアウトの一覧（version なし）。folder-ref はスキャンした子をそのまま保存していた
+     *   2: 実行時のみの状態を除き、folder-ref は子の代わりに展開中のディレクトリを保存する
+     */
+    private static readonly MIGRATIONS: ((stored: unknown) => unknown)[] = [
+        stored => ({
+            active: DEFAULT_LAYOUT_NAME,
+            layouts: [{ name: DEFAULT_LAYOUT_NAME, nodes: LayoutStorage.renameLegacyTypes(stored) }],
+        }),
+        stored => {
+            const { active, layouts } = stored as { active?: unknown; layouts?: unknown };
+            return {
+                version: 2,
+                active,
+                layouts: Array.isArray(layouts)
+                    ? layouts.map(layout => ({ ...layout, nodes: LayoutStorage.toVersion2Nodes(layout?.nodes) }))
+                    : layouts,
+            };
+        },
+    ];
+
+    constructor(private state: vscode.Memento) { }
+
+    /** 保存されたレイアウトを読み込む。何も保存されていなければ undefined */
+    public load(generateId: () => string): { layouts: LayoutMap; active: string } | undefined {
+        const stored = this.state.get<unknown>(LAYOUTS_STORAGE_KEY);
+        const legacy = this.state.get<unknown>(STORAGE_KEY);
+        if (stored === undefined && legacy === undefined) {
+            return undefined;
+        }
+
+        const raw = stored ?? legacy;
+        const version = stored === undefined ? 0
+            : typeof (stored as { version?: unknown })?.version === 'number' ? (stored as { version: number }).version
+                : 1;
+
+        try {
+            let migrated = raw;
+            for (let current = version; current < STORAGE_SCHEMA_VERSION; current++) {
+                migrated = LayoutStorage.MIGRATIONS[current](migrated);
+            }
+            const result = this.validate(migrated, generateId);
+            if (!result.isComplete) {
+                this.backup(raw, version, '保存データの一部を読み込めなかったため、読み込めた項目だけを復元しました。');
+            }
+            return result;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.backup(raw, version, `保存データを読み込めなかったため、空のツリーで開始しました。${message}`);
+            return { layouts: new Map([[DEFAULT_LAYOUT_NAME, []]]), active: DEFAULT_LAYOUT_NAME };
+        }
+    }
+
+    public save(layouts: LayoutMap, active: string): void {
+        const stored: StoredLayouts = {
+            version: STORAGE_SCHEMA_VERSION,
+            active,
+            layouts: Array.from(layouts, ([name, nodes]) => ({ name, nodes: nodes.map(node => LayoutStorage.toStoredNode(node)) })),
+        };
+        this.state.update(LAYOUTS_STORAGE_KEY, stored);
+    }
+
+    // --- 保存 ---
+
+    // folder-ref と動的グループの子は実ファイル・検索結果から作り直すため保存しない
+    private static toStoredNode(node: StoredNode): StoredNode {
+        const stored = LayoutStorage.pickFields(node);
+        if (node.type === 'group' && node.children) {
+            stored.children = node.children.map(child => LayoutStorage.toStoredNode(child));
+        }
+        return stored;
+    }
+
+    private static pickFields(node: StoredNode): StoredNode {
+        const stored: StoredNode = { id: node.id, label: node.label, type: node.type };
+        for (const key of LayoutStorage.NODE_KEYS) {
+            if (node[key] !== undefined) {
+                LayoutStorage.copyField(stored, node, key);
+            }
+        }
+        return stored;
+    }
+
+    private static copyField<K extends keyof StoredNode>(target: StoredNode, source: StoredNode, key: K): void {
+        target[key] = source[key];
+    }
+
+    // --- 移行 ---
+
+    private static renameLegacyTypes(nodes: unknown): unknown {
+        if (!Array.isArray(nodes)) {
+            return nodes;
+        }
+        return nodes.map(node => {
+            if (!node || typeof node !== 'object') {
+                return node;
+            }
+            const type = node.type === 'file' ? 'file-ref' : node.type === 'linked-group' ? 'folder-ref' : node.type;
+            return { ...node, type, children: LayoutStorage.renameLegacyTypes(node.children) };
+        });
+    }
+
+    private static toVersion2Nodes(nodes: unknown): unknown {
+        if (!Array.isArray(nodes)) {
+            return nodes;
+        }
+        return nodes.map(node => {
+            if (!node || typeof node !== 'object') {
+                return node;
+            }
+            const stored = LayoutStorage.pickFields(node as StoredNode);
+            if (stored.type === 'group') {
+                stored.children = LayoutStorage.toVersion2Nodes((node as StoredNode).children) as StoredNode[] | undefined;
+            }
+            if (stored.type === 'folder-ref') {
+                const expandedDirs = LayoutStorage.collectExpandedDirs((node as StoredNode).children);
+                if (expandedDirs.length) {
+                    stored.expandedDirs = expandedDirs;
+                }
+            }
+            return stored;
+        });
+    }
+
+    // version 1 で保存していた folder-ref の子から、展開していたディレクトリの相対パスを集める
+    private static collectExpandedDirs(nodes: unknown, parentPath = ''): string[] {
+        if (!Array.isArray(nodes)) {
+            return [];
+        }
+        return nodes
+            .filter((node): node is StoredNode => node?.type === 'group' && typeof node.label === 'string')
+            .flatMap(node => {
+                const relativePath = parentPath ? `${parentPath}/${node.label}` : node.label;
+                const descendants = LayoutStorage.collectExpandedDirs(node.children, relativePath);
+                return node.collapsibleState === vscode.TreeItemCollapsibleState.Expanded
+                    ? [relativePath, ...descendants]
+                    : descendants;
+            });
+    }
+
+    // --- 検証 ---
+
+    private validate(stored: unknown, generateId: () => string): { layouts: LayoutMap; active: string; isComplete: boolean } {
+        const { active, layouts } = (stored ?? {}) as { active?: unknown; layouts?: unknown };
+        if (!Array.isArray(layouts)) {
+            throw new Error('"layouts" 配列がありません。');
+        }
+
+        const result: LayoutMap = new Map();
+        const dropped = { count: 0 };
+        for (const layout of layouts) {
+            if (typeof layout?.name !== 'string' || !layout.name || result.has(layout.name) || !Array.isArray(layout.nodes)) {
+                dropped.count++;
+                continue;
+            }
+            result.set(layout.name, this.toExplorerNodes(layout.nodes, generateId, dropped));
+        }
+        if (result.size === 0) {
+            throw new Error('有効なレイアウトがありません。');
+        }
+
+        const names = Array.from(result.keys());
+        const activeName = typeof active === 'string' && result.has(active) ? active : names[0];
+        return { layouts: result, active: activeName, isComplete: dropped.count === 0 };
+    }
+
+    // 種類・名前・子・参照先が不正なノードは配下ごと取り除き、その数を dropped に数える
+    private toExplorerNodes(nodes: unknown[], generateId: () => string, dropped: { count: number }): ExplorerNode[] {
+        const result: ExplorerNode[] = [];
+        for (const value of nodes) {
+            const stored = value as StoredNode | undefined;
+            if (!LayoutStorage.isValidNode(stored)) {
+                dropped.count++;
+                continue;
+            }
+
+            const node: ExplorerNode = LayoutStorage.pickFields(stored);
+            if (typeof node.id !== 'string' || !node.id) {
+                node.id = generateId();
+            }
+            if (node.expandedDirs !== undefined && !Array.isArray(node.expandedDirs)) {
+                node.expandedDirs = undefined;
+            }
+            if (node.type === 'group') {
+                node.children = this.toExplorerNodes(stored.children ?? [], generateId, dropped);
+            } else if (node.type === 'folder-ref' || node.type === 'query-group' || node.type === 'git-group') {
+                node.children = [];
+            }
+            result.push(node);
+        }
+        return result;
+    }
+
+    private static isValidNode(node: StoredNode | undefined): node is StoredNode {
+        if (!node || typeof node !== 'object') {
+            return false;
+        }
+        if (!LayoutStorage.NODE_TYPES.includes(node.type) || typeof node.label !== 'string') {
+            return false;
+        }
+        if (node.children !== undefined && !Array.isArray(node.children)) {
+            return false;
+        }
+        if (node.filePath !== undefined && typeof node.filePath !== 'string') {
+            return false;
+        }
+        if (node.linkedPath !== undefined && typeof node.linkedPath !== 'string') {
+            return false;
+        }
+        // ファイルを指すノードは参照先がなければ復元できない
+        const needsFilePath = node.type === 'file-ref' || node.type === 'location-ref' || node.type === 'symbol-ref';
+        if (needsFilePath && !node.filePath) {
+            return false;
+        }
+        return LayoutStorage.isValidPayload(node);
+    }
+
+    // 種類ごとの付加情報は壊れていると表示や実行の途中で例外になるため、ノードごと取り除く
+    private static isValidPayload(node: StoredNode): boolean {
+        const isStringArray = (value: unknown): boolean => Array.isArray(value) && value.every(item => typeof item === 'string');
+        switch (node.type) {
+            case 'location-ref':
+                return DefinitionFileStore.isValidRange(node.range);
+            case 'symbol-ref':
+                return !!node.symbol && typeof node.symbol === 'object'
+                    && typeof node.symbol.name === 'string'
+                    && Number.isInteger(node.symbol.kind)
+                    && isStringArray(node.symbol.containerPath)
+                    && (node.range === undefined || DefinitionFileStore.isValidRange(node.range));
+            case 'query-group':
+                return !!node.query && typeof node.query === 'object'
+                    && isStringArray(node.query.include)
+                    && isStringArray(node.query.exclude);
+            case 'git-group':
+                return !!node.git && typeof node.git === 'object'
+                    && typeof node.git.kind === 'string' && node.git.kind in GIT_GROUP_KINDS
+                    && (node.git.ref === undefined || typeof node.git.ref === 'string');
+            case 'action':
+                return !!node.action && typeof node.action === 'object'
+                    && typeof node.action.kind === 'string' && node.action.kind in ACTION_KINDS
+                    && typeof node.action.target === 'string'
+                    && (node.action.args === undefined || Array.isArray(node.action.args));
+            default:
+                return true;
+        }
+    }
+
+    // 復元後は検証済みのデータで上書き保存されるため、退避は読み込みに失敗したときの一度きりになる
+    private backup(data: unknown, version: number, message: string): void {
+        const backup: StorageBackup = { savedAt: new Date().toISOString(), version, data };
+        this.state.update(BACKUP_STORAGE_KEY, backup);
+        void vscode.window.showWarningMessage(`${message}元のデータはバックアップとして保持しています。`, 'バックアップを開く')
+            .then(async action => {
+                if (action !== 'バックアップを開く') {
+                    return;
+                }
+                const document = await vscode.workspace.openTextDocument({
+                    language: 'json',
+                    content: JSON.stringify(backup, null, 2),
+                });
+                await vscode.window.showTextDocument(document);
+            });
+    }
+}
+
+// ---------------------------------------------------------------------------
+// CustomTreeDataProvider
+// ---------------------------------------------------------------------------
+
+export class CustomTreeDataProvider implements
+    vscode.TreeDataProvider<ExplorerNode>,
+    vscode.TreeDragAndDropController<ExplorerNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ExplorerNode | ExplorerNode[] | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private data: ExplorerNode[] = [];
+    // 実パス → そのパスを表すすべてのノード（file-ref と folder-ref の子など、同じファイルが複数箇所にある場合を含む）
+    private pathIndex: Map<string, Set<ExplorerNode>> = new Map();
+    private uriIndex: Map<string, Set<ExplorerNode>> = new Map();
+    // 参照先ファイルの実パス → location-ref / symbol-ref（編集・保存・診断の変更のたびに引く）
+    private rangeRefIndex: Map<string, Set<ExplorerNode>> = new Map();
+    // ディレクトリ → 配下（孫以下を含む）にある pathIndex / rangeRefIndex のキー（ディレクトリの作成・削除の影響を引く）
+    private directoryKeys: Map<string, Set<string>> = new Map();
+    // インデックスは変更のあった階層だけを付け直すため、取り除かれたノードが残っていることがある。引くときに親リンクで確かめる
+    private parentLinks: WeakMap<ExplorerNode, ParentLink> = new WeakMap();
+    private indexEntries: WeakMap<ExplorerNode, IndexEntry> = new WeakMap();
+    // 前回インデックスした時点のルートの子
+    private indexedRoots: ExplorerNode[] = [];
+    private watcherMap: Map<string, vscode.FileSystemWatcher> = new Map();
+    private queryRefreshTimers: Map<string, NodeJS.Timeout> = new Map();
+    // folder-ref ID → 変更のあったディレクトリ（連続したイベントをまとめて読み直す）
+    private folderSyncQueue: Map<string, { dirs: Set<string>; timer: NodeJS.Timeout }> = new Map();
+    // 中身を読み込み済みの folder-ref とその配下のディレクトリ。未読み込みのものは展開時に読み込む
+    private loadedDirectories: WeakSet<ExplorerNode> = new WeakSet();
+    private directoryLoads: Map<ExplorerNode, Promise<void>> = new Map();
+    // file-ref / folder-ref の参照先の存在確認（VS Code 外での削除・移動の検出）
+    private existenceWatcher: vscode.FileSystemWatcher;
+    private missingCheckTimer?: NodeJS.Timeout;
+    // 次の参照切れの確認で調べる対象（all はアクティブなレイアウト全体、paths はその実パスと配下を指すノード）
+    private pendingMissingCheck: { all: boolean; nodes: Set<ExplorerNode>; paths: Set<string> } =
+        { all: false, nodes: new Set(), paths: new Set() };
+    // 未保存の編集に合わせてずらした location-ref の範囲（node.range は保存済みの内容に対する範囲のまま保存する）
+    private unsavedRanges: Map<ExplorerNode, LocationRange> = new Map();
+    private symbolResolveTimers: Map<string, NodeJS.Timeout> = new Map();
+    private liveSections: ExplorerNode[];
+    private recentFiles: string[];
+
+    // フィルター中は一致したノードとその先祖だけを表示する
+    private filterQuery?: string;
+    private filterMatches: Map<ExplorerNode, [number, number][]> = new Map();
+    private filterVisible: Set<ExplorerNode> = new Set();
+    // TreeItem.id に付与する世代番号。変えるとVSCodeが保持する開閉状態を破棄して collapsibleState に従わせる
+    private idEpoch = 0;
+    private pendingCreation?: { parent: ExplorerNode; node: ExplorerNode };
+    private pendingRename?: { node: ExplorerNode; originalLabel: string; kind: 'file' | 'folder'; snapshot: string };
+    // アクティブなレイアウトの構造変更履歴（JSON化したツリー）。レイアウト切り替えで破棄する
+    private undoStack: string[] = [];
+    private redoStack: string[] = [];
+    // ビュー内のクリップボード（切り取りの場合は貼り付け後に破棄する）
+    private clipboard?: { nodes: ExplorerNode[]; cut: boolean };
+    private definitionFile: DefinitionFileStore;
+    private layoutStorage: LayoutStorage;
+    private gitChanges: GitChangeSource;
+    private layouts: LayoutMap = new Map();
+    private activeLayout = DEFAULT_LAYOUT_NAME;
+
+    private _onDidChangeLayout = new vscode.EventEmitter<string>();
+    readonly onDidChangeLayout = this._onDidChangeLayout.event;
+
+    // 参照先の有無が変わったノードの表示URI（デコレーション更新用）
+    // 参照切れや外観の変更など、ツリーの再描画だけでは更新されないデコレーションの変更
+    private _onDidChangeDecorations = new vscode.EventEmitter<vscode.Uri[]>();
+    readonly onDidChangeDecorations = this._onDidChangeDecorations.event;
+
+    public dropMimeTypes = [MIME_INTERNAL, 'text/uri-list', 'text/plain'];
+    public dragMimeTypes = [MIME_INTERNAL, 'text/uri-list', 'text/plain'];
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.definitionFile = new DefinitionFileStore(() => this.reloadFromDefinitionFile());
+        this.layoutStorage = new LayoutStorage(this.context.workspaceState);
+        this.gitChanges = new GitChangeSource();
+        this.gitChanges.onDidChange(() => this.handleGitChange());
+        this.recentFiles = this.context.workspaceState.get<string[]>(RECENT_STORAGE_KEY) ?? [];
+        this.liveSections = (Object.keys(LIVE_SECTIONS) as LiveSectionKind[])
+            .map(kind => this.createLiveSectionNode(kind));
+        this.existenceWatcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+        this.existenceWatcher.onDidCreate(uri => this.scheduleMissingCheck({ paths: [uri.fsPath] }));
+        this.existenceWatcher.onDidDelete(uri => this.scheduleMissingCheck({ paths: [uri.fsPath] }));
+        this.loadData();
+        this.refreshLiveSections();
+    }
+
+    // --- ノード判定ヘルパー ---
+
+    private isGroupLike(node: ExplorerNode): boolean {
+        return node.type === 'group'
+            || node.type === 'folder-ref'
+            || node.type === 'query-group'
+            || node.type === 'git-group'
+            || node.type === 'live-section';
+    }
+
+    // 実ファイル・フォルダーを指し、参照先の存在確認や再リンクの対象になるノード
+    private isReferenceNode(node: ExplorerNode): boolean {
+        return node.type === 'file-ref' || node.type === 'folder-ref' || this.isRangeRef(node);
+    }
+
+    // ファイル全体ではなくファイル内の範囲を指すノード
+    public isRangeRef(node: ExplorerNode): boolean {
+        return node.type === 'location-ref' || node.type === 'symbol-ref';
+    }
+
+    // 子が検索結果などから自動生成され、ユーザーが直接追加・移動できないグループ
+    private isDynamicGroup(node: ExplorerNode): boolean {
+        return node.type === 'query-group' || node.type === 'git-group' || node.type === 'live-section';
+    }
+
+    private isChildOfFolderRef(node: ExplorerNode): boolean {
+        let current = this.getParent(node);
+        while (current) {
+            if (current.type === 'folder-ref') return true;
+            current = this.getParent(current);
+        }
+        return false;
+    }
+
+    private isPendingCreationNode(node: ExplorerNode): boolean {
+        return this.pendingCreation?.node.id === node.id;
+    }
+
+    private isPendingRenameNode(node: ExplorerNode): boolean {
+        return this.pendingRename?.node.id === node.id;
+    }
+
+    private getRuntimeTransientKind(node: ExplorerNode): RuntimeTransientKind | undefined {
+        if (node.transientKind) {
+            return node.transientKind;
+        }
+        if (this.isPendingRenameNode(node)) {
+            return this.pendingRename?.kind === 'file' ? 'rename-file' : 'rename-folder';
+        }
+        return undefined;
+    }
+
+    // --- ノード生成ファクトリ ---
+
+    private createFileNode(label: string, filePath: string): ExplorerNode {
+        return { id: this.generateId(), label, type: 'file-ref', filePath };
+    }
+
+    private createGroupNode(
+        label: string,
+        collapsibleState = vscode.TreeItemCollapsibleState.Expanded
+    ): ExplorerNode {
+        return { id: this.generateId(), label, type: 'group', children: [], collapsibleState };
+    }
+
+    private createFolderRefNode(label: string, linkedPath: string): ExplorerNode {
+        return {
+            id: this.generateId(),
+            label,
+            type: 'folder-ref',
+            linkedPath,
+            children: [],
+            collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+        };
+    }
+
+    private createQueryGroupNode(label: string, query: GlobQuery, scopePath?: string): ExplorerNode {
+        return {
+            id: this.generateId(),
+            label,
+            type: 'query-group',
+            linkedPath: scopePath,
+            query,
+            children: [],
+            collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+        };
+    }
+
+    private createLiveSectionNode(kind: LiveSectionKind): ExplorerNode {
+        return {
+            id: `live:${kind}`,
+            label: LIVE_SECTIONS[kind].label,
+            type: 'live-section',
+            liveKind: kind,
+            children: [],
+            collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+        };
+    }
+
+    // 動的な子のIDは親と実パスから決定的に作り、再計算しても選択状態が保たれるようにする
+    private createDynamicChildNode(parent: ExplorerNode, filePath: string): ExplorerNode {
+        return {
+            id: `${parent.id}:${filePath}`,
+            label: path.basename(filePath),
+            type: 'file-ref',
+            filePath,
+            dynamicChild: true,
+        };
+    }
+
+    // --- 公開ルックアップAPI ---
+
+    // ライブセクション配下は「表示中のファイル」への reveal 対象にしない
+    public findNodeByPath(targetPath: string): ExplorerNode | undefined {
+        return this.pickIndexed(this.getIndexed(this.pathIndex, targetPath, false));
+    }
+
+    public getNodeByUri(uri: vscode.Uri): ExplorerNode | undefined {
+        return this.pickIndexed(this.getIndexed(this.uriIndex, uri.toString(), true));
+    }
+
+    public getGroupUri(node: ExplorerNode): vscode.Uri {
+        return vscode.Uri.parse(`${URI_SCHEME}://group/${node.id}`);
+    }
+
+    public getTreePathUri(node: ExplorerNode): vscode.Uri {
+        const treePath = node.cachedTreePath || ('/' + node.label);
+        return vscode.Uri.parse(`${URI_SCHEME}://tree${treePath}`);
+    }
+
+    public getDisplayUri(node: ExplorerNode): vscode.Uri {
+        // ライブセクションは同名のユーザーグループとURIが衝突しないよう専用のURIを使う
+        if (node.type === 'live-section') {
+            return vscode.Uri.parse(`${URI_SCHEME}://live/${node.liveKind}`);
+        }
+        // location-ref / symbol-ref はファイル単位のデコレーションと衝突しないよう専用のURIを使う
+        if (this.isRangeRef(node)) {
+            return vscode.Uri.parse(`${URI_SCHEME}://${node.type === 'location-ref' ? 'location' : 'symbol'}/${node.id}`);
+        }
+        const fsPath = this.resolveFsPath(node);
+        return fsPath ? vscode.Uri.file(fsPath) : this.getTreePathUri(node);
+    }
+
+    // --- 実パス解決 (OS操作系コマンド等で使用) ---
+    public resolveFsPath(node: ExplorerNode): string | undefined {
+        if (node.filePath) return node.filePath;
+        if (node.type === 'folder-ref' && node.linkedPath) return node.linkedPath;
+        if (node.type === 'group' && this.isChildOfFolderRef(node)) return this.resolveGroupFsPath(node);
+        return undefined;
+    }
+
+    /**
+     * 削除・一括名前変更の対象となる実パス。実ファイルそのものを表すノード
+     * (file-ref、folder-ref とその配下、動的グループの子) に限り、location-ref 等の参照やスナップショットは対象外とする
+     */
+    public resolveEntryPath(node: ExplorerNode): string | undefined {
+        if (node.type !== 'file-ref' && node.type !== 'folder-ref' && !this.isChildOfFolderRef(node)) {
+            return undefined;
+        }
+        return this.resolveFsPath(node);
+    }
+
+    // --- マルチルートワークスペース ---
+
+    private isMultiRoot(): boolean {
+        return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    }
+
+    /** 実パスを所属ワークスペースフォルダーと '/' 区切りの相対パスに分解する */
+    public getWorkspaceLocation(fsPath: string): { folder: vscode.WorkspaceFolder; relativePath: string } | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+        if (!folder) {
+            return undefined;
+        }
+        const relativePath = path.relative(folder.uri.fsPath, fsPath).split(path.sep).join('/');
+        return { folder, relativePath: relativePath || '.' };
+    }
+
+    private getNodeFsPath(node: ExplorerNode): string | undefined {
+        return node.linkedPath ?? node.filePath;
+    }
+
+    private setNodeFsPath(node: ExplorerNode, fsPath: string): void {
+        if (node.type === 'folder-ref' || node.type === 'query-group') {
+            node.linkedPath = fsPath;
+        } else {
+            node.filePath = fsPath;
+        }
+    }
+
+    /**
+     * 保存済みの (ワークスペースフォルダー, 相対パス) から絶対パスを解決し直す。
+     * フォルダーが開かれていないノードは孤立扱いにする。
+     * 実パスや孤立状態が変わった folder-ref を返す（ウォッチャーの張り直し用）。
+     */
+    private resolveWorkspaceLocations(nodes: ExplorerNode[], changedFolderRefs: ExplorerNode[] = []): ExplorerNode[] {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        for (const node of nodes) {
+            if (node.workspaceFolder && node.relativePath !== undefined) {
+                const folder = folders.find(f => f.name === node.workspaceFolder);
+                const wasOrphaned = Boolean(node.orphaned);
+                const oldPath = this.getNodeFsPath(node);
+
+                if (folder) {
+                    this.setNodeFsPath(node, path.join(folder.uri.fsPath, ...node.relativePath.split('/')));
+                    node.orphaned = undefined;
+                } else {
+                    node.orphaned = true;
+                }
+
+                const isChanged = wasOrphaned !== Boolean(node.orphaned) || oldPath !== this.getNodeFsPath(node);
+                if (isChanged && this.hasWatcher(node)) {
+                    changedFolderRefs.push(node);
+                }
+            }
+
+            // folder-ref や動的グループの子は再スキャンされるため対象外
+            if (node.children && !this.hasRuntimeChildren(node)) {
+                this.resolveWorkspaceLocations(node.children, changedFolderRefs);
+            }
+        }
+        return changedFolderRefs;
+    }
+
+    /** 現在の絶対パスから (ワークスペースフォルダー, 相対パス) の組を更新する */
+    private updateWorkspaceLocations(nodes: ExplorerNode[]): void {
+        for (const node of nodes) {
+            this.updateWorkspaceLocation(node);
+            if (node.children && !this.hasRuntimeChildren(node)) {
+                this.updateWorkspaceLocations(node.children);
+            }
+        }
+    }
+
+    private updateWorkspaceLocation(node: ExplorerNode): void {
+        const fsPath = this.getNodeFsPath(node);
+        if (fsPath && !node.orphaned) {
+            const location = this.getWorkspaceLocation(fsPath);
+            node.workspaceFolder = location?.folder.name;
+            node.relativePath = location?.relativePath;
+        }
+    }
+
+    /** ワークスペースフォルダーの追加・削除・移動に追従してノードを孤立・再接続させる */
+    public handleWorkspaceFoldersChange(): void {
+        for (const [name, nodes] of this.layouts) {
+            const changedFolderRefs = this.resolveWorkspaceLocations(nodes);
+            if (name !== this.activeLayout) {
+                continue;
+            }
 
-    constructor(private context: vscode.ExtensionContext) {
-        this.loadData();
+            for (const folderRef of changedFolderRefs) {
+                this.disposeWatcher(folderRef.id);
+                if (!folderRef.orphaned) {
+                    this.restoreWatchers([folderRef]);
+                }
+            }
+
+            // スコープ指定のない query-group はワークスペース全体が対象のため再検索する
+            this.forEachNode(nodes, node => {
+                if (node.type === 'query-group' && !node.linkedPath) {
+                    this.scheduleDynamicRefresh(node);
+                }
+            });
+        }
+        this.saveAndRefresh();
+    }
+
+    private describeLocation(node: ExplorerNode, fsPath: string): string | undefined {
+        if (node.orphaned) {
+            return `${node.workspaceFolder} (フォルダーが開かれていません)`;
+        }
+
+        const parentDir = path.basename(path.dirname(fsPath));
+        const dirLabel = parentDir ? `${parentDir}/` : undefined;
+        if (!this.isMultiRoot()) {
+            return dirLabel;
+        }
+
+        const folderName = this.getWorkspaceLocation(fsPath)?.folder.name;
+        return [folderName, dirLabel].filter(Boolean).join(' · ') || undefined;
+    }
+
+    // --- ファイルシステムウォッチャー ---
+
+    // 実ファイルの変化に追従して子を再構築するノード（ウォッチャーを持つ）
+    private hasWatcher(node: ExplorerNode): boolean {
+        return node.type === 'folder-ref' || node.type === 'query-group';
+    }
+
+    // 子が保存データではなく実ファイルや検索結果から生成されるノード
+    private hasRuntimeChildren(node: ExplorerNode): boolean {
+        return node.type === 'folder-ref' || this.isDynamicGroup(node);
+    }
+
+    private setupWatcher(node: ExplorerNode): void {
+        if (node.type === 'query-group') {
+            this.setupQueryWatcher(node);
+            return;
+        }
+        if (node.type !== 'folder-ref' || !node.linkedPath || node.orphaned) {
+            return;
+        }
+        try {
+            // ファイルの内容の変更では構成が変わらないため、追加・削除のみを監視する
+            const pattern = new vscode.RelativePattern(vscode.Uri.file(node.linkedPath), '**/*');
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, true, false);
+            const schedule = (uri: vscode.Uri) => this.scheduleFolderSync(node, path.dirname(uri.fsPath));
+            watcher.onDidCreate(schedule);
+            watcher.onDidDelete(schedule);
+            this.watcherMap.set(node.id, watcher);
+        } catch (err) {
+            console.error(`Failed to setup watcher for ${node.linkedPath}:`, err);
+        }
+    }
+
+    // query-group はファイルの追加・削除のみを監視し、連続したイベントはまとめて再検索する
+    private setupQueryWatcher(node: ExplorerNode): void {
+        if (node.orphaned) {
+            return;
+        }
+        try {
+            const pattern = node.linkedPath
+                ? new vscode.RelativePattern(vscode.Uri.file(node.linkedPath), '**/*')
+                : '**/*';
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, true, false);
+            const refresh = () => this.scheduleDynamicRefresh(node);
+            watcher.onDidCreate(refresh);
+            watcher.onDidDelete(refresh);
+            this.watcherMap.set(node.id, watcher);
+        } catch (err) {
+            console.error(`Failed to setup watcher for query group ${node.label}:`, err);
+        }
+    }
+
+    private disposeWatcher(nodeId: string): void {
+        const timer = this.queryRefreshTimers.get(nodeId);
+        if (timer) {
+            clearTimeout(timer);
+            this.queryRefreshTimers.delete(nodeId);
+        }
+        const folderSync = this.folderSyncQueue.get(nodeId);
+        if (folderSync) {
+            clearTimeout(folderSync.timer);
+            this.folderSyncQueue.delete(nodeId);
+        }
+
+        const watcher = this.watcherMap.get(nodeId);
+        if (!watcher) return;
+        watcher.dispose();
+        this.watcherMap.delete(nodeId);
+    }
+
+    public disposeAllWatchers(): void {
+        for (const watcher of this.watcherMap.values()) watcher.dispose();
+        this.watcherMap.clear();
+        for (const timer of this.queryRefreshTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.queryRefreshTimers.clear();
+        for (const { timer } of this.folderSyncQueue.values()) {
+            clearTimeout(timer);
+        }
+        this.folderSyncQueue.clear();
+    }
+
+    // --- 動的グループ (query-group / git-group) ---
+
+    private scheduleDynamicRefresh(node: ExplorerNode): void {
+        const pending = this.queryRefreshTimers.get(node.id);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.queryRefreshTimers.set(node.id, setTimeout(() => {
+            this.queryRefreshTimers.delete(node.id);
+            void this.refreshDynamicGroup(node);
+        }, QUERY_REFRESH_DELAY_MS));
+    }
+
+    private async refreshDynamicGroup(node: ExplorerNode): Promise<void> {
+        if (node.type === 'query-group') {
+            await this.refreshQueryGroup(node);
+        } else if (node.type === 'git-group') {
+            await this.refreshGitGroup(node);
+        } else if (node.type === 'live-section' && node.liveKind) {
+            this.refreshLiveSection(node.liveKind);
+        }
+    }
+
+    private setDynamicChildren(node: ExplorerNode, filePaths: string[], error?: string): void {
+        node.children = filePaths.map(fsPath => this.createDynamicChildNode(node, fsPath));
+        node.dynamicError = error;
+        if (!this.updateScopes([node])) {
+            this.rebuildIndex();
+        }
+        this._onDidChangeTreeData.fire(node);
+    }
+
+    /** Git リポジトリの状態変化時に、アクティブなレイアウト内の git-group を再計算する */
+    private handleGitChange(): void {
+        this.forEachNode(this.data, node => {
+            if (node.type === 'git-group') {
+                this.scheduleDynamicRefresh(node);
+            }
+        });
+    }
+
+    private async refreshGitGroup(node: ExplorerNode): Promise<void> {
+        if (node.type !== 'git-group' || !node.git) {
+            return;
+        }
+
+        try {
+            const filePaths = await this.gitChanges.getFiles(node.git);
+            this.setDynamicChildren(node, filePaths
+                .filter(fsPath => !this.shouldExclude(fsPath))
+                .sort((a, b) => a.localeCompare(b, undefined, { numeric: true })));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.setDynamicChildren(node, [], message);
+        }
+    }
+
+    public addGitGroup(query: GitQuery, parent?: ExplorerNode): void {
+        const kind = GIT_GROUP_KINDS[query.kind];
+        const label = query.kind === 'diff' ? `${kind.label} ${query.ref}` : kind.label;
+        const node: ExplorerNode = {
+            id: this.generateId(),
+            label,
+            type: 'git-group',
+            git: query,
+            children: [],
+            collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+        };
+        this.recordHistory();
+        const scope = this.appendToParent(node, parent);
+        this.saveAndRefresh([scope]);
+        this.restoreWatchers([node]);
+    }
+
+    /** 動的グループの現在の子を、通常の group と file-ref として同じ階層に書き出す */
+    public snapshotGroup(node: ExplorerNode): ExplorerNode | undefined {
+        if (!this.isDynamicGroup(node)) {
+            return undefined;
+        }
+
+        const snapshot = this.createGroupNode(`${node.label} (${new Date().toLocaleString()})`);
+        snapshot.children = (node.children ?? [])
+            .filter(child => child.filePath)
+            .map(child => this.createFileNode(child.label, child.filePath!));
+
+        const parent = this.getParent(node);
+        this.recordHistory();
+        (parent?.children ?? this.data).push(snapshot);
+        this.saveAndRefresh([parent]);
+        return snapshot;
+    }
+
+    // --- ライブセクション (開いているエディター / 最近使用したファイル) ---
+
+    private isLiveSectionEnabled(kind: LiveSectionKind): boolean {
+        return vscode.workspace.getConfiguration('customExplorer.liveSections')
+            .get<boolean>(LIVE_SECTIONS[kind].setting, true);
+    }
+
+    // 空のセクションは表示せず、何も追加されていないときはウェルカムビューを出す
+    private getVisibleLiveSections(): ExplorerNode[] {
+        return this.liveSections.filter(section =>
+            section.liveKind && this.isLiveSectionEnabled(section.liveKind) && section.children?.length);
+    }
+
+    public refreshLiveSections(): void {
+        this.liveSections.forEach(section => section.liveKind && this.refreshLiveSection(section.liveKind));
+    }
+
+    public refreshLiveSection(kind: LiveSectionKind): void {
+        const section = this.liveSections.find(s => s.liveKind === kind);
+        if (!section) {
+            return;
+        }
+
+        const wasVisible = this.getVisibleLiveSections().includes(section);
+        const filePaths = (!this.isLiveSectionEnabled(kind) ? []
+            : kind === 'open-editors' ? this.collectOpenEditorPaths()
+                : this.recentFiles.slice(0, this.getRecentMaxItems()))
+            .filter(fsPath => !this.shouldExclude(fsPath));
+
+        // タブの状態変化などで一覧が変わらない場合は何もしない
+        const current = section.children ?? [];
+        if (current.length === filePaths.length && current.every((child, i) => child.filePath === filePaths[i])) {
+            return;
+        }
+
+        // 残った子と兄弟配列は使い回し、加わった子と外れた子だけをインデックスに反映する
+        const existing = new Map(current.map(child => [child.filePath, child]));
+        const children = filePaths.map(fsPath => existing.get(fsPath) ?? this.createDynamicChildNode(section, fsPath));
+        (section.children ??= []).splice(0, section.children.length, ...children);
+        if (!this.updateScopes([section])) {
+            this.indexSubtree(section, undefined, this.liveSections, true);
+        }
+
+        // 表示・非表示が切り替わる場合はルートごと更新する
+        const isVisible = this.getVisibleLiveSections().includes(section);
+        this._onDidChangeTreeData.fire(wasVisible === isVisible && isVisible ? section : undefined);
+    }
+
+    private collectOpenEditorPaths(): string[] {
+        const paths = new Set<string>();
+        for (const group of vscode.window.tabGroups.all) {
+            for (const tab of group.tabs) {
+                const input = tab.input;
+                const uri = input instanceof vscode.TabInputText ? input.uri
+                    : input instanceof vscode.TabInputTextDiff ? input.modified
+                        : input instanceof vscode.TabInputNotebook ? input.uri
+                            : input instanceof vscode.TabInputCustom ? input.uri
+                                : undefined;
+                if (uri?.scheme === 'file') {
+                    paths.add(uri.fsPath);
+                }
+            }
+        }
+        return Array.from(paths);
+    }
+
+    /** アクティブになったファイルを最近使用したファイルの先頭に記録する（ワークスペース単位で保存） */
+    public recordRecentFile(uri: vscode.Uri | undefined): void {
+        if (!uri || uri.scheme !== 'file' || this.recentFiles[0] === uri.fsPath) {
+            return;
+        }
+
+        this.recentFiles = [uri.fsPath, ...this.recentFiles.filter(p => p !== uri.fsPath)].slice(0, this.getRecentMaxItems());
+        void this.persistRecentFiles();
+    }
+
+    private getRecentMaxItems(): number {
+        const maxItems = vscode.workspace.getConfiguration('customExplorer.liveSections').get<number>('recentMaxItems', 10);
+        return Math.max(1, maxItems);
+    }
+
+    private async persistRecentFiles(): Promise<void> {
+        this.refreshLiveSection('recent');
+        try {
+            await this.context.workspaceState.update(RECENT_STORAGE_KEY, this.recentFiles);
+        } catch (error) {
+            console.error('Failed to save recent files', error);
+        }
+    }
+
+    private renameRecentFiles(oldPrefix: string, newPrefix: string): boolean {
+        let isChanged = false;
+        this.recentFiles = this.recentFiles.map(fsPath => {
+            if (fsPath !== oldPrefix && !fsPath.startsWith(oldPrefix + path.sep)) {
+                return fsPath;
+            }
+            isChanged = true;
+            return newPrefix + fsPath.substring(oldPrefix.length);
+        });
+        return isChanged;
+    }
+
+    private removeRecentFiles(removedPath: string): boolean {
+        const before = this.recentFiles.length;
+        this.recentFiles = this.recentFiles.filter(fsPath =>
+            fsPath !== removedPath && !fsPath.startsWith(removedPath + path.sep));
+        return this.recentFiles.length !== before;
+    }
+
+    // --- query-group ---
+
+    /** include パターンに一致するファイルを検索し、exclude と files.exclude を除外して子を置き換える */
+    private async refreshQueryGroup(node: ExplorerNode): Promise<void> {
+        if (node.type !== 'query-group' || !node.query || node.orphaned) {
+            return;
+        }
+
+        const { include, exclude } = node.query;
+        const scopeUri = node.linkedPath ? vscode.Uri.file(node.linkedPath) : undefined;
+        const found = new Set<string>();
+
+        try {
+            for (const pattern of include) {
+                const glob = scopeUri ? new vscode.RelativePattern(scopeUri, pattern) : pattern;
+                const uris = await vscode.workspace.findFiles(glob, undefined, QUERY_GROUP_MAX_RESULTS);
+                uris.forEach(uri => found.add(uri.fsPath));
+            }
+        } catch (err) {
+            console.error(`Failed to evaluate query group ${node.label}:`, err);
+            return;
+        }
+
+        const matches = Array.from(found)
+            .filter(fsPath => !this.matchesQueryExclude(fsPath, exclude, node.linkedPath))
+            .filter(fsPath => !this.shouldExclude(fsPath))
+            .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+            .slice(0, QUERY_GROUP_MAX_RESULTS);
+
+        this.setDynamicChildren(node, matches);
+    }
+
+    private matchesQueryExclude(fsPath: string, exclude: string[], scopePath?: string): boolean {
+        if (exclude.length === 0) {
+            return false;
+        }
+        const relativePath = scopePath
+            ? path.relative(scopePath, fsPath).split(path.sep).join('/')
+            : this.getWorkspaceLocation(fsPath)?.relativePath ?? fsPath;
+        return exclude.some(pattern => minimatch(relativePath, pattern, { dot: true, matchBase: !pattern.includes('/') }));
+    }
+
+    public addQueryGroup(label: string, query: GlobQuery, scopePath?: string, parent?: ExplorerNode): void {
+        const node = this.createQueryGroupNode(label, query, scopePath);
+        this.recordHistory();
+        const scope = this.appendToParent(node, parent);
+        this.saveAndRefresh([scope]);
+        this.restoreWatchers([node]);
+    }
+
+    // --- アクション (action) ---
+
+    public addAction(label: string, action: ActionSpec, parent?: ExplorerNode): ExplorerNode {
+        const node: ExplorerNode = { id: this.generateId(), label, type: 'action', action };
+        this.recordHistory();
+        const scope = this.appendToParent(node, parent);
+        this.saveAndRefresh([scope]);
+        return node;
+    }
+
+    public updateAction(node: ExplorerNode, action: ActionSpec): void {
+        if (node.type !== 'action') {
+            return;
+        }
+        this.recordHistory();
+        node.action = action;
+        this.saveAndRefresh([this.getParent(node)]);
+    }
+
+    public updateQueryGroup(node: ExplorerNode, query: GlobQuery, scopePath?: string): void {
+        if (node.type !== 'query-group') {
+            return;
+        }
+        this.recordHistory();
+        this.disposeWatcher(node.id);
+        node.query = query;
+        node.linkedPath = scopePath;
+        node.workspaceFolder = undefined;
+        node.relativePath = undefined;
+        node.children = [];
+        this.saveAndRefresh([node]);
+        this.restoreWatchers([node]);
+    }
+
+    private forEachNode(nodes: ExplorerNode[], callback: (node: ExplorerNode) => void): void {
+        for (const node of nodes) {
+            callback(node);
+            if (node.children) {
+                this.forEachNode(node.children, callback);
+            }
+        }
+    }
+
+    public dispose(): void {
+        this.disposeAllWatchers();
+        if (this.missingCheckTimer) {
+            clearTimeout(this.missingCheckTimer);
+        }
+        this.symbolResolveTimers.forEach(timer => clearTimeout(timer));
+        this.existenceWatcher.dispose();
+        this.definitionFile.dispose();
+        this.gitChanges.dispose();
+    }
+
+    // --- 行・範囲のブックマーク (location-ref) ---
+
+    public addLocationRef(filePath: string, range: vscode.Range, label: string, parent?: ExplorerNode): ExplorerNode {
+        const node: ExplorerNode = {
+            id: this.generateId(),
+            label,
+            type: 'location-ref',
+            filePath,
+            range: this.toLocationRange(range),
+        };
+        this.recordHistory();
+        const scope = this.appendToParent(node, parent);
+        this.saveAndRefresh([scope]);
+        return node;
+    }
+
+    public getLocationRange(node: ExplorerNode): vscode.Range | undefined {
+        const range = this.unsavedRanges.get(node) ?? node.range;
+        return range && new vscode.Range(range.startLine, range.startCharacter, range.endLine, range.endCharacter);
+    }
+
+    /** 指定した実パスを表すすべてのノード（location-ref / symbol-ref を除く） */
+    public getNodesByPath(fsPath: string): readonly ExplorerNode[] {
+        return this.getIndexed(this.pathIndex, fsPath, true);
+    }
+
+    /** アクティブなレイアウト内で、指定したファイルを指す location-ref / symbol-ref */
+    public getLocationRefs(fsPath: string): ExplorerNode[] {
+        return this.getIndexed(this.rangeRefIndex, fsPath, false);
+    }
+
+    /**
+     * 編集内容に合わせて location-ref の範囲をずらす。
+     * ずらした範囲は保存されるまでノードとは別に持ち、保存せずに閉じられた場合は捨てる。
+     */
+    public handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+        if (event.document.uri.scheme !== 'file' || event.contentChanges.length === 0) {
+            return;
+        }
+        const refs = this.getLocationRefs(event.document.uri.fsPath);
+        // symbol-ref は範囲をずらさず、編集が落ち着いてからシンボルを解決し直す
+        if (refs.some(node => node.type === 'symbol-ref')) {
+            this.scheduleSymbolResolve(event.document.uri.fsPath);
+        }
+
+        const nodes = refs.filter(node => node.type === 'location-ref' && node.range);
+        if (nodes.length === 0) {
+            return;
+        }
+
+        for (const node of nodes) {
+            const range = this.unsavedRanges.get(node) ?? node.range as LocationRange;
+            this.unsavedRanges.set(node, event.contentChanges.reduce((current, change) => this.shiftRange(current, change), range));
+            this._onDidChangeTreeData.fire(node);
+        }
+        this._onDidChangeDecorations.fire(nodes.map(node => this.getDisplayUri(node)));
+    }
+
+    public handleDocumentSave(document: vscode.TextDocument): void {
+        if (this.getLocationRefs(document.uri.fsPath).some(node => node.type === 'symbol-ref')) {
+            this.scheduleSymbolResolve(document.uri.fsPath);
+        }
+        const nodes = this.getLocationRefs(document.uri.fsPath).filter(node => this.unsavedRanges.has(node));
+        if (nodes.length === 0) {
+            return;
+        }
+        for (const node of nodes) {
+            node.range = this.unsavedRanges.get(node);
+            this.unsavedRanges.delete(node);
+        }
+        this.saveAndRefresh(nodes.map(node => this.getParent(node)));
+    }
+
+    public handleDocumentClose(document: vscode.TextDocument): void {
+        const reverted = Array.from(this.unsavedRanges.keys()).filter(node => node.filePath === document.uri.fsPath);
+        if (reverted.length === 0) {
+            return;
+        }
+        for (const node of reverted) {
+            this.unsavedRanges.delete(node);
+            this._onDidChangeTreeData.fire(node);
+        }
+        this._onDidChangeDecorations.fire(reverted.map(node => this.getDisplayUri(node)));
+    }
+
+    private shiftRange(range: LocationRange, change: vscode.TextDocumentContentChangeEvent): LocationRange {
+        const lines = change.text.split(/\r\n|\r|\n/);
+        const changeStart = change.range.start;
+        const changeEnd = change.range.end;
+        const insertedEnd = new vscode.Position(
+            changeStart.line + lines.length - 1,
+            (lines.length === 1 ? changeStart.character : 0) + lines[lines.length - 1].length
+        );
+
+        // 変更より前の位置はそのまま、変更範囲内の位置は変更の端に寄せ、後ろの位置は挿入後の末尾からの相対位置へずらす
+        const shift = (position: vscode.Position, isStart: boolean): vscode.Position => {
+            if (isStart ? position.isBefore(changeStart) : position.isBeforeOrEqual(changeStart)) {
+                return position;
+            }
+            if (position.isBefore(changeEnd)) {
+                return isStart ? changeStart : insertedEnd;
+            }
+            if (position.line === changeEnd.line) {
+                return new vscode.Position(insertedEnd.line, insertedEnd.character + position.character - changeEnd.character);
+            }
+            return position.translate(insertedEnd.line - changeEnd.line);
+        };
+
+        const start = shift(new vscode.Position(range.startLine, range.startCharacter), true);
+        const end = shift(new vscode.Position(range.endLine, range.endCharacter), false);
+        const fixedEnd = end.isBefore(start) ? start : end;
+        return {
+            startLine: start.line,
+            startCharacter: start.character,
+            endLine: fixedEnd.line,
+            endCharacter: fixedEnd.character,
+        };
+    }
+
+    // --- シンボル参照 (symbol-ref) ---
+
+    /** ドキュメントのシンボルを、親シンボルの名前の並び付きで平坦化して返す。取得できない場合は undefined */
+    public async getDocumentSymbols(uri: vscode.Uri): Promise<DocumentSymbolEntry[] | undefined> {
+        let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+        try {
+            symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+                'vscode.executeDocumentSymbolProvider', uri
+            );
+        } catch {
+            return undefined;
+        }
+        if (!symbols?.length) {
+            return undefined;
+        }
+
+        const entries: DocumentSymbolEntry[] = [];
+        const visit = (items: vscode.DocumentSymbol[], containerPath: string[]) => {
+            for (const item of items) {
+                entries.push({ name: item.name, kind: item.kind, containerPath, range: item.range, selectionRange: item.selectionRange });
+                visit(item.children ?? [], [...containerPath, item.name]);
+            }
+        };
+        for (const symbol of symbols) {
+            if ('children' in symbol) {
+                visit([symbol], []);
+            } else {
+                const { range } = symbol.location;
+                entries.push({
+                    name: symbol.name,
+                    kind: symbol.kind,
+                    containerPath: symbol.containerName ? [symbol.containerName] : [],
+                    range,
+                    selectionRange: range,
+                });
+            }
+        }
+        return entries;
+    }
+
+    public addSymbolRef(filePath: string, symbol: DocumentSymbolEntry, parent?: ExplorerNode): ExplorerNode {
+        const node: ExplorerNode = {
+            id: this.generateId(),
+            label: symbol.name,
+            type: 'symbol-ref',
+            filePath,
+            symbol: { name: symbol.name, kind: symbol.kind, containerPath: symbol.containerPath },
+            range: this.toLocationRange(symbol.range),
+        };
+        this.recordHistory();
+        const scope = this.appendToParent(node, parent);
+        this.saveAndRefresh([scope]);
+        return node;
+    }
+
+    /** 見つからなくなった symbol-ref を別のシンボルに付け替える。ラベルがシンボル名のままなら追従させる */
+    public rebindSymbolRef(node: ExplorerNode, symbol: DocumentSymbolEntry): void {
+        if (node.type !== 'symbol-ref') {
+            return;
+        }
+        this.recordHistory();
+        if (node.label === node.symbol?.name) {
+            node.label = symbol.name;
+        }
+        node.symbol = { name: symbol.name, kind: symbol.kind, containerPath: symbol.containerPath };
+        node.range = this.toLocationRange(symbol.range);
+        node.unresolved = undefined;
+        this.saveAndRefresh([this.getParent(node)]);
+        this._onDidChangeDecorations.fire([this.getDisplayUri(node)]);
     }
 
-    // --- ノード判定ヘルパー ---
+    /**
+     * symbol-ref のシンボルを現在のドキュメントから探し、範囲と「見つからない」状態を更新する。
+     * 名前と種類が一致する候補のうち、親シンボルの並びが一致するもの、なければ前回の位置に最も近いものを選ぶ。
+     * シンボルを取得できなかった場合（言語サーバーの起動前など）は状態を変えずに undefined を返す。
+     */
+    public async resolveSymbolRef(node: ExplorerNode): Promise<DocumentSymbolEntry | undefined> {
+        if (node.type !== 'symbol-ref' || !node.filePath || !node.symbol || node.missing) {
+            return undefined;
+        }
+        const symbols = await this.getDocumentSymbols(vscode.Uri.file(node.filePath));
+        if (!symbols) {
+            return undefined;
+        }
+
+        const query = node.symbol;
+        const candidates = symbols.filter(symbol => symbol.name === query.name && symbol.kind === query.kind);
+        const lastLine = node.range?.startLine ?? 0;
+        const match = candidates.find(symbol => symbol.containerPath.join('.') === query.containerPath.join('.'))
+            ?? candidates.sort((a, b) => Math.abs(a.range.start.line - lastLine) - Math.abs(b.range.start.line - lastLine))[0];
 
-    private isGroupLike(node: ExplorerNode): boolean {
-        return node.type === 'group' || node.type === 'folder-ref';
+        const wasUnresolved = Boolean(node.unresolved);
+        node.unresolved = match ? undefined : true;
+        if (match) {
+            node.range = this.toLocationRange(match.range);
+        }
+        if (wasUnresolved !== Boolean(node.unresolved) || match) {
+            this._onDidChangeTreeData.fire(node);
+            this._onDidChangeDecorations.fire([this.getDisplayUri(node)]);
+        }
+        return match;
     }
 
-    private isChildOfFolderRef(node: ExplorerNode): boolean {
-        let current = this.getParent(node);
-        while (current) {
-            if (current.type === 'folder-ref') return true;
-            current = this.getParent(current);
+    private scheduleSymbolResolve(fsPath: string): void {
+        const pending = this.symbolResolveTimers.get(fsPath);
+        if (pending) {
+            clearTimeout(pending);
         }
-        return false;
+        this.symbolResolveTimers.set(fsPath, setTimeout(() => {
+            this.symbolResolveTimers.delete(fsPath);
+            const nodes = this.getLocationRefs(fsPath).filter(node => node.type === 'symbol-ref');
+            void Promise.all(nodes.map(node => this.resolveSymbolRef(node)));
+        }, SYMBOL_RESOLVE_DELAY_MS));
     }
 
-    private isPendingCreationNode(node: ExplorerNode): boolean {
-        return this.pendingCreation?.node.id === node.id;
+    /** url アクションのローカルパス（相対パスは最初のワークスペースフォルダーを基準にする） */
+    public resolveActionPath(target: string): string {
+        if (path.isAbsolute(target)) {
+            return target;
+        }
+        return path.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '', ...target.split('/'));
     }
 
-    private isPendingRenameNode(node: ExplorerNode): boolean {
-        return this.pendingRename?.node.id === node.id;
+    private toLocationRange(range: vscode.Range): LocationRange {
+        return {
+            startLine: range.start.line,
+            startCharacter: range.start.character,
+            endLine: range.end.line,
+            endCharacter: range.end.character,
+        };
     }
 
-    private getRuntimeTransientKind(node: ExplorerNode): RuntimeTransientKind | undefined {
-        if (node.transientKind) {
-            return node.transientKind;
+    // --- 参照切れの検出 ---
+
+    /**
+     * 参照切れの確認を予約する。targets 未指定時はアクティブなレイアウト全体を確認する。
+     * ワークスペース外のファイルは監視できないため、ウィンドウのフォーカス復帰時などにも呼ばれる
+     */
+    public scheduleMissingCheck(targets?: { nodes?: Iterable<ExplorerNode>; paths?: Iterable<string> }): void {
+        const pending = this.pendingMissingCheck;
+        if (!targets) {
+            pending.all = true;
         }
-        if (this.isPendingRenameNode(node)) {
-            return this.pendingRename?.kind === 'file' ? 'rename-file' : 'rename-folder';
+        for (const node of targets?.nodes ?? []) {
+            pending.nodes.add(node);
         }
-        return undefined;
+        for (const fsPath of targets?.paths ?? []) {
+            pending.paths.add(fsPath);
+        }
+
+        if (this.missingCheckTimer) {
+            clearTimeout(this.missingCheckTimer);
+        }
+        this.missingCheckTimer = setTimeout(() => {
+            this.missingCheckTimer = undefined;
+            const { all, nodes, paths } = this.pendingMissingCheck;
+            this.pendingMissingCheck = { all: false, nodes: new Set(), paths: new Set() };
+            void this.checkMissingReferences(all ? undefined : [...nodes, ...this.findReferencesUnder(paths)]);
+        }, MISSING_CHECK_DELAY_MS);
     }
 
-    // --- ノード生成ファクトリ ---
+    /**
+     * file-ref / folder-ref / location-ref / symbol-ref の参照先を非同期に確認し、missing を更新する。
+     * targets 未指定時はアクティブなレイアウト全体を確認する
+     */
+    private async checkMissingReferences(targets?: readonly ExplorerNode[]): Promise<void> {
+        const nodes = targets
+            ? Array.from(new Set(targets)).filter(node => this.isMissingCheckTarget(node))
+            : this.collectMissingCheckTargets(this.data);
+        const changed: ExplorerNode[] = [];
+        for (let i = 0; i < nodes.length; i += MISSING_CHECK_BATCH_SIZE) {
+            await Promise.all(nodes.slice(i, i + MISSING_CHECK_BATCH_SIZE).map(async node => {
+                const fsPath = this.getNodeFsPath(node);
+                if (!fsPath || node.orphaned) {
+                    return;
+                }
+                const missing = await vscode.workspace.fs.stat(vscode.Uri.file(fsPath)).then(() => false, () => true);
+                if (missing !== Boolean(node.missing)) {
+                    node.missing = missing || undefined;
+                    changed.push(node);
+                }
+            }));
+        }
+        if (changed.length === 0) {
+            return;
+        }
 
-    private createFileNode(label: string, filePath: string): ExplorerNode {
-        return { id: this.generateId(), label, type: 'file-ref', filePath };
-    }
+        // 参照先が復活した folder-ref はウォッチャーを張り直して子を再構築する
+        for (const node of changed) {
+            if (node.type === 'folder-ref' && !node.missing) {
+                this.disposeWatcher(node.id);
+                this.restoreWatchers([node]);
+            }
+        }
 
-    private createGroupNode(
-        label: string,
-        collapsibleState = vscode.TreeItemCollapsibleState.Expanded
-    ): ExplorerNode {
-        return { id: this.generateId(), label, type: 'group', children: [], collapsibleState };
+        this._onDidChangeDecorations.fire(changed.map(node => this.getDisplayUri(node)));
+        this._onDidChangeTreeData.fire();
     }
 
-    private createFolderRefNode(label: string, linkedPath: string): ExplorerNode {
-        return {
-            id: this.generateId(),
-            label,
-            type: 'folder-ref',
-            linkedPath,
-            children: [],
-            collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+    // folder-ref や動的グループの子は実ファイルから生成されるため対象外
+    private collectMissingCheckTargets(nodes: ExplorerNode[]): ExplorerNode[] {
+        const targets: ExplorerNode[] = [];
+        const visit = (current: ExplorerNode[]) => {
+            for (const node of current) {
+                if (this.isReferenceNode(node)) {
+                    targets.push(node);
+                }
+                if (node.children && !this.hasRuntimeChildren(node)) {
+                    visit(node.children);
+                }
+            }
         };
+        visit(nodes);
+        return targets;
     }
 
-    // --- 公開ルックアップAPI ---
+    private isMissingCheckTarget(node: ExplorerNode): boolean {
+        return this.isReferenceNode(node) && !node.dynamicChild && this.isAttached(node) && !this.isChildOfFolderRef(node);
+    }
 
-    public findNodeByPath(targetPath: string): ExplorerNode | undefined {
-        return this.pathIndex.get(targetPath);
+    /** 指定した実パス、またはその配下を指すノード（作成・削除されたファイルやディレクトリの影響を受けるもの） */
+    private findReferencesUnder(paths: ReadonlySet<string>): ExplorerNode[] {
+        const keys = new Set<string>();
+        for (const fsPath of paths) {
+            keys.add(fsPath);
+            // 参照先の祖先に当たるパスだけがディレクトリとして配下に影響しうる
+            this.directoryKeys.get(fsPath)?.forEach(key => keys.add(key));
+        }
+        return Array.from(keys).flatMap(key => [
+            ...this.getIndexed(this.pathIndex, key, false),
+            ...this.getIndexed(this.rangeRefIndex, key, false),
+        ]);
     }
 
-    public getNodeByUri(uri: vscode.Uri): ExplorerNode | undefined {
-        return this.uriToNodeMap.get(uri.toString());
+    public async countMissingReferences(): Promise<number> {
+        await this.checkMissingReferences();
+        let count = 0;
+        this.forEachNode(this.data, node => {
+            if (node.missing) {
+                count++;
+            }
+        });
+        return count;
     }
 
-    public getGroupUri(node: ExplorerNode): vscode.Uri {
-        return vscode.Uri.parse(`${URI_SCHEME}://group/${node.id}`);
+    /** 参照先が見つからない file-ref / folder-ref をツリー全体から取り除き、取り除いた件数を返す */
+    public async removeMissingReferences(): Promise<number> {
+        await this.checkMissingReferences();
+        const targets: ExplorerNode[] = [];
+        this.forEachNode(this.data, node => {
+            if (node.missing) {
+                targets.push(node);
+            }
+        });
+        return this.removeNodes(targets);
     }
 
-    public getTreePathUri(node: ExplorerNode): vscode.Uri {
-        const treePath = node.cachedTreePath || ('/' + node.label);
-        return vscode.Uri.parse(`${URI_SCHEME}://tree${treePath}`);
+    /** 参照先と同じ名前を持つワークスペース内のファイル（folder-ref の場合はフォルダー）を探す */
+    public async findRelinkCandidates(node: ExplorerNode): Promise<string[]> {
+        const fsPath = this.getNodeFsPath(node);
+        if (!fsPath || !this.isReferenceNode(node)) {
+            return [];
+        }
+
+        // glob の特殊文字を含む名前でも一致するよう文字クラスでエスケープする
+        const name = path.basename(fsPath).replace(/[[\]{}*?]/g, c => `[${c}]`);
+        const pattern = node.type !== 'folder-ref' ? `**/${name}` : `**/${name}/*`;
+        const uris = await vscode.workspace.findFiles(pattern, undefined, RELINK_MAX_CANDIDATES);
+
+        const candidates = new Set(uris.map(uri => node.type !== 'folder-ref' ? uri.fsPath : path.dirname(uri.fsPath)));
+        candidates.delete(fsPath);
+        return Array.from(candidates).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
     }
 
-    public getDisplayUri(node: ExplorerNode): vscode.Uri {
-        const fsPath = this.resolveFsPath(node);
-        return fsPath ? vscode.Uri.file(fsPath) : this.getTreePathUri(node);
+    /** file-ref / folder-ref の参照先を付け替える。ラベルが元のファイル名のままなら新しい名前に追従させる */
+    public relinkNode(node: ExplorerNode, newPath: string): void {
+        const oldPath = this.getNodeFsPath(node);
+        if (!oldPath || !this.isReferenceNode(node)) {
+            return;
+        }
+
+        this.recordHistory();
+        if (node.label === path.basename(oldPath)) {
+            node.label = path.basename(newPath);
+        }
+        node.missing = undefined;
+        node.orphaned = undefined;
+
+        const scope = this.getParent(node);
+        if (node.type === 'folder-ref') {
+            this.disposeWatcher(node.id);
+            node.linkedPath = newPath;
+            // 中身は展開時に新しい参照先から読み込む
+            node.children = [];
+            this.loadedDirectories.delete(node);
+            this.saveAndRefresh([scope]);
+            this.restoreWatchers([node]);
+        } else {
+            node.filePath = newPath;
+            this.saveAndRefresh([scope]);
+        }
+        this._onDidChangeDecorations.fire([vscode.Uri.file(oldPath), vscode.Uri.file(newPath)]);
     }
 
-    // --- 実パス解決 (OS操作系コマンド等で使用) ---
-    public resolveFsPath(node: ExplorerNode): string | undefined {
-        if (node.filePath) return node.filePath;
-        if (node.type === 'folder-ref' && node.linkedPath) return node.linkedPath;
-        if (node.type === 'group' && this.isChildOfFolderRef(node)) return this.resolveGroupFsPath(node);
-        return undefined;
+    // --- インデックス管理 ---
+
+    private rebuildIndex() {
+        this.pathIndex.clear();
+        this.uriIndex.clear();
+        this.rangeRefIndex.clear();
+        this.directoryKeys.clear();
+        this.parentLinks = new WeakMap();
+        this.indexEntries = new WeakMap();
+
+        this.data.forEach(node => this.indexSubtree(node, undefined, this.data, false));
+        this.liveSections.forEach(node => this.indexSubtree(node, undefined, this.liveSections, true));
+        this.indexedRoots = [...this.data];
+
+        if (this.filterQuery) {
+            this.computeFilter();
+        }
     }
 
-    // --- ファイルシステムウォッチャー ---
+    /**
+     * 指定した階層（undefined はルート）の子だけを並べ替え、インデックスを付け直す。
+     * 新しく加わった子・名前や参照先が変わった子はその配下ごと付け直し、付け直したノードを返す。
+     * 階層自体がツリーから外れている場合は何もせず undefined を返すので、呼び出し側で全体を付け直す。
+     */
+    private updateScopes(scopes: readonly (ExplorerNode | undefined)[]): ExplorerNode[] | undefined {
+        const targets = Array.from(new Set(scopes));
+        if (targets.some(scope => scope && !this.getIndexedRoot(scope))) {
+            return undefined;
+        }
 
-    private setupWatcher(node: ExplorerNode): void {
-        if (node.type !== 'folder-ref' || !node.linkedPath) return;
-        try {
-            const pattern = new vscode.RelativePattern(vscode.Uri.file(node.linkedPath), '**/*');
-            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
-            const sync = () => this.syncFolderRef(node);
-            watcher.onDidCreate(sync);
-            watcher.onDidDelete(sync);
-            watcher.onDidChange(sync);
-            this.watcherMap.set(node.id, watcher);
-        } catch (err) {
-            console.error(`Failed to setup watcher for ${node.linkedPath}:`, err);
+        // 取り除かれた子を先に外してから、移動先の階層で付け直す
+        for (const scope of targets) {
+            const previous = scope ? this.indexEntries.get(scope)?.children ?? [] : this.indexedRoots;
+            const current = new Set(scope ? scope.children : this.data);
+            previous.filter(child => !current.has(child)).forEach(child => this.unindexSubtree(child));
+        }
+
+        const comparators = this.buildComparators();
+        const changed: ExplorerNode[] = [];
+        for (const scope of targets) {
+            const siblings = scope ? scope.children ?? [] : this.data;
+            const isLive = scope ? this.indexEntries.get(scope)?.isLive ?? false : false;
+            // 動的グループの子は取得した順序のまま表示する
+            const compareFn = isLive || (scope && this.isDynamicGroup(scope))
+                ? undefined
+                : this.getChildCompareFn(scope, comparators.compareFns, comparators.compareFn);
+            if (compareFn) {
+                siblings.sort(compareFn);
+            }
+
+            for (const child of siblings) {
+                if (this.isIndexedUnder(child, scope, siblings)) {
+                    continue;
+                }
+                if (!isLive) {
+                    this.sortNodesRecursive([child], compareFn, comparators.compareFns);
+                }
+                this.indexSubtree(child, scope, siblings, isLive);
+                changed.push(child);
+            }
+
+            if (scope) {
+                const entry = this.indexEntries.get(scope);
+                if (entry) {
+                    entry.children = [...siblings];
+                }
+            } else {
+                this.indexedRoots = [...siblings];
+            }
+        }
+
+        if (this.filterQuery) {
+            this.computeFilter();
         }
+        return changed;
     }
 
-    private disposeWatcher(nodeId: string): void {
-        const watcher = this.watcherMap.get(nodeId);
-        if (!watcher) return;
-        watcher.dispose();
-        this.watcherMap.delete(nodeId);
+    private indexSubtree(node: ExplorerNode, parent: ExplorerNode | undefined, siblings: ExplorerNode[], isLive: boolean): void {
+        this.unindexNode(node);
+        // 実パスの解決（folder-ref 配下のグループ）で親をたどるため、キーより先にリンクを張る
+        this.parentLinks.set(node, { parent, siblings });
+        node.cachedTreePath = `${parent?.cachedTreePath ?? ''}/${node.label}`;
+
+        // location-ref / symbol-ref はファイル全体を表さないため、実パスでの逆引き（reveal 等）の対象にしない
+        const fsPath = this.getIndexedFsPath(node);
+        const uris = new Set([this.getDisplayUri(node).toString()]);
+        if (fsPath) {
+            uris.add(vscode.Uri.file(fsPath).toString());
+        }
+        if (this.isGroupLike(node)) {
+            uris.add(this.getGroupUri(node).toString());
+        }
+        if (!isLive) {
+            uris.add(this.getTreePathUri(node).toString());
+        }
+
+        const rangePath = this.getRangeRefPath(node);
+        if (fsPath) {
+            this.addIndexed(this.pathIndex, fsPath, node);
+        }
+        if (rangePath) {
+            this.addIndexed(this.rangeRefIndex, rangePath, node);
+        }
+        uris.forEach(uri => this.addIndexed(this.uriIndex, uri, node));
+
+        const children = node.children ?? [];
+        this.indexEntries.set(node, {
+            id: node.id,
+            type: node.type,
+            treePath: node.cachedTreePath,
+            fsPath,
+            rangePath,
+            uris: Array.from(uris),
+            isLive,
+            children: [...children],
+        });
+        children.forEach(child => this.indexSubtree(child, node, children, isLive));
     }
 
-    public disposeAllWatchers(): void {
-        for (const watcher of this.watcherMap.values()) watcher.dispose();
-        this.watcherMap.clear();
+    private unindexNode(node: ExplorerNode): ExplorerNode[] {
+        const entry = this.indexEntries.get(node);
+        if (!entry) {
+            return [];
+        }
+        if (entry.fsPath) {
+            this.deleteIndexed(this.pathIndex, entry.fsPath, node);
+        }
+        if (entry.rangePath) {
+            this.deleteIndexed(this.rangeRefIndex, entry.rangePath, node);
+        }
+        entry.uris.forEach(uri => this.deleteIndexed(this.uriIndex, uri, node));
+        this.indexEntries.delete(node);
+        return entry.children;
     }
 
-    // --- インデックス管理 ---
+    private unindexSubtree(node: ExplorerNode): void {
+        this.unindexNode(node).forEach(child => this.unindexSubtree(child));
+        this.parentLinks.delete(node);
+    }
 
-    private rebuildIndex() {
-        this.pathIndex.clear();
-        this.uriToNodeMap.clear();
+    /** 前回インデックスした位置・名前・参照先のまま同じ階層にあるか */
+    private isIndexedUnder(node: ExplorerNode, scope: ExplorerNode | undefined, siblings: ExplorerNode[]): boolean {
+        const link = this.parentLinks.get(node);
+        const entry = this.indexEntries.get(node);
+        return !!link && !!entry
+            && link.parent === scope && link.siblings === siblings
+            && entry.id === node.id && entry.type === node.type
+            && entry.treePath === `${scope?.cachedTreePath ?? ''}/${node.label}`
+            && entry.fsPath === this.getIndexedFsPath(node)
+            && entry.rangePath === this.getRangeRefPath(node);
+    }
 
-        const traverse = (nodes: ExplorerNode[], parentPath = '') => {
-            for (const node of nodes) {
-                node.cachedTreePath = `${parentPath}/${node.label}`;
+    private getIndexedFsPath(node: ExplorerNode): string | undefined {
+        return this.isRangeRef(node) ? undefined : this.resolveFsPath(node);
+    }
 
-                const resolvedFsPath = this.resolveFsPath(node);
-                if (resolvedFsPath) {
-                    this.pathIndex.set(resolvedFsPath, node);
-                    this.uriToNodeMap.set(vscode.Uri.file(resolvedFsPath).toString(), node);
-                }
+    private getRangeRefPath(node: ExplorerNode): string | undefined {
+        return this.isRangeRef(node) ? node.filePath : undefined;
+    }
 
-                const displayUri = this.getDisplayUri(node);
-                this.uriToNodeMap.set(displayUri.toString(), node);
+    private addIndexed(index: Map<string, Set<ExplorerNode>>, key: string, node: ExplorerNode): void {
+        const nodes = index.get(key);
+        if (nodes) {
+            nodes.add(node);
+            return;
+        }
+        index.set(key, new Set([node]));
+        if (index !== this.uriIndex) {
+            this.forEachAncestorDirectory(key, dir => {
+                const keys = this.directoryKeys.get(dir);
+                if (keys) {
+                    keys.add(key);
+                } else {
+                    this.directoryKeys.set(dir, new Set([key]));
+                }
+            });
+        }
+    }
 
-                if (this.isGroupLike(node)) {
-                    this.uriToNodeMap.set(this.getGroupUri(node).toString(), node);
+    private deleteIndexed(index: Map<string, Set<ExplorerNode>>, key: string, node: ExplorerNode): void {
+        const nodes = index.get(key);
+        if (!nodes?.delete(node) || nodes.size > 0) {
+            return;
+        }
+        index.delete(key);
+        if (index !== this.uriIndex && !this.pathIndex.has(key) && !this.rangeRefIndex.has(key)) {
+            this.forEachAncestorDirectory(key, dir => {
+                const keys = this.directoryKeys.get(dir);
+                if (keys?.delete(key) && keys.size === 0) {
+                    this.directoryKeys.delete(dir);
                 }
+            });
+        }
+    }
 
-                this.uriToNodeMap.set(this.getTreePathUri(node).toString(), node);
+    // ルート自身は作成・削除されないため含めない
+    private forEachAncestorDirectory(fsPath: string, callback: (dir: string) => void): void {
+        for (let dir = path.dirname(fsPath); path.dirname(dir) !== dir; dir = path.dirname(dir)) {
+            callback(dir);
+        }
+    }
 
-                if (node.children) traverse(node.children, node.cachedTreePath);
-            }
-        };
-        traverse(this.data);
+    /** インデックス上の候補のうち、アクティブなレイアウト（includeLive ならライブセクションも）に残っているもの */
+    private getIndexed(index: Map<string, Set<ExplorerNode>>, key: string, includeLive: boolean): ExplorerNode[] {
+        return Array.from(index.get(key) ?? []).filter(node => {
+            const root = this.getIndexedRoot(node);
+            return root === this.data || (includeLive && root === this.liveSections);
+        });
+    }
+
+    // 同じ実パスが動的グループにも現れる場合は、ユーザーが追加したノードを優先する
+    private pickIndexed(nodes: ExplorerNode[]): ExplorerNode | undefined {
+        return nodes.find(node => !node.dynamicChild) ?? nodes[0];
+    }
+
+    private getValidLink(node: ExplorerNode): ParentLink | undefined {
+        const link = this.parentLinks.get(node);
+        if (!link) {
+            return undefined;
+        }
+        const siblings = link.parent ? link.parent.children
+            : [this.data, this.liveSections].find(root => root === link.siblings);
+        return siblings === link.siblings ? link : undefined;
+    }
+
+    /** 親リンクをたどって属するルートの配列を返す。ツリーから外れていれば undefined */
+    private getIndexedRoot(node: ExplorerNode): ExplorerNode[] | undefined {
+        let link = this.getValidLink(node);
+        while (link?.parent) {
+            link = this.getValidLink(link.parent);
+        }
+        return link?.siblings;
     }
 
     // --- ファイル変更ハンドラ ---
@@ -817,59 +4893,242 @@ class CustomTreeDataProvider implements
         for (const file of files) {
             const oldPath = file.oldUri.fsPath;
             const newPath = file.newUri.fsPath;
-            const targetNode = this.pathIndex.get(oldPath);
+            const targetNode = this.findNodeByPath(oldPath);
+
+            if (this.renameRecentFiles(oldPath, newPath)) {
+                void this.persistRecentFiles();
+            }
+
+            // folder-ref配下や動的グループのノードはウォッチャー等が処理するためスキップ
+            if (this.retargetDescendantPaths(oldPath, newPath, targetNode)) {
+                isChanged = true;
+            }
+            if (this.retargetLocationRefs(oldPath, newPath)) {
+                isChanged = true;
+            }
+            if (!targetNode || this.isChildOfFolderRef(targetNode) || targetNode.dynamicChild) {
+                continue;
+            }
+
+            targetNode.label = path.basename(newPath);
+            if (targetNode.type === 'folder-ref') {
+                this.disposeWatcher(targetNode.id);
+                targetNode.linkedPath = newPath;
+                this.setupWatcher(targetNode);
+            } else if (targetNode.filePath) {
+                targetNode.filePath = newPath;
+            }
+            this.updatePathRecursive(targetNode, oldPath, newPath);
+            isChanged = true;
+        }
+
+        if (isChanged) this.saveAndRefresh();
+    }
+
+    /** location-ref / symbol-ref は pathIndex に載らないため、ファイル自身または親ディレクトリの名前変更を個別に反映する */
+    private retargetLocationRefs(oldPath: string, newPath: string): boolean {
+        const prefix = oldPath + path.sep;
+        const targets = Array.from(this.rangeRefIndex.keys())
+            .filter(fsPath => fsPath === oldPath || fsPath.startsWith(prefix))
+            .flatMap(fsPath => this.getLocationRefs(fsPath).map(node => [fsPath, node] as const));
+
+        for (const [fsPath, node] of targets) {
+            node.filePath = newPath + fsPath.substring(oldPath.length);
+        }
+        return targets.length > 0;
+    }
+
+    /** ディレクトリの名前変更・移動時に、配下の実ファイルを指す file-ref / folder-ref を追従させる */
+    private retargetDescendantPaths(oldDir: string, newDir: string, exclude?: ExplorerNode): boolean {
+        const prefix = oldDir + path.sep;
+        const targets = Array.from(this.pathIndex.keys())
+            .filter(fsPath => fsPath.startsWith(prefix))
+            .flatMap(fsPath => this.getIndexed(this.pathIndex, fsPath, false).map(node => [fsPath, node] as const))
+            .filter(([, node]) => node !== exclude
+                && (node.type === 'file-ref' || node.type === 'folder-ref')
+                && !node.dynamicChild && !this.isChildOfFolderRef(node));
+
+        for (const [fsPath, node] of targets) {
+            const newPath = newDir + fsPath.substring(oldDir.length);
+            if (node.type === 'folder-ref') {
+                this.disposeWatcher(node.id);
+                node.linkedPath = newPath;
+                this.setupWatcher(node);
+            } else {
+                node.filePath = newPath;
+            }
+        }
+        return targets.length > 0;
+    }
+
+    private updatePathRecursive(node: ExplorerNode, oldPrefix: string, newPrefix: string) {
+        node.children?.forEach(child => {
+            if (child.filePath?.startsWith(oldPrefix)) {
+                child.filePath = newPrefix + child.filePath.substring(oldPrefix.length);
+            }
+            this.updatePathRecursive(child, oldPrefix, newPrefix);
+        });
+    }
+
+    public handleFileDelete(files: readonly vscode.Uri[]) {
+        const scopes: (ExplorerNode | undefined)[] = [];
+        for (const uri of files) {
+            if (this.removeRecentFiles(uri.fsPath)) {
+                void this.persistRecentFiles();
+            }
+            const node = this.findNodeByPath(uri.fsPath);
+            // folder-ref配下のノードはウォッチャーが処理するためスキップ
+            if (node && !this.isChildOfFolderRef(node)) {
+                const parent = this.getParent(node);
+                if (this.removeNode(node, false)) {
+                    scopes.push(parent);
+                }
+            }
+        }
+        if (scopes.length > 0) {
+            this.saveAndRefresh(scopes);
+        }
+    }
+
+    // --- フィルター ---
+
+    public getFilter(): string | undefined {
+        return this.filterQuery;
+    }
+
+    /** 文字列 (部分一致) または glob パターンでツリーを絞り込む。空文字・undefined で解除 */
+    public setFilter(query: string | undefined): number {
+        this.filterQuery = query?.trim() || undefined;
+        this.filterMatches.clear();
+        this.filterVisible.clear();
+        if (this.filterQuery) {
+            this.computeFilter();
+        }
+
+        this.idEpoch++;
+        vscode.commands.executeCommand('setContext', CONTEXT_KEY_FILTER_ACTIVE, Boolean(this.filterQuery));
+        this._onDidChangeTreeData.fire();
+        return this.filterMatches.size;
+    }
+
+    private computeFilter(): void {
+        const query = this.filterQuery;
+        if (!query) {
+            return;
+        }
+
+        this.filterMatches.clear();
+        this.filterVisible.clear();
+
+        const isGlob = /[*?[\]{}]/.test(query);
+        const lowerQuery = query.toLocaleLowerCase();
+        const match = (node: ExplorerNode): [number, number][] | undefined => {
+            if (isGlob) {
+                const fsPath = this.resolveFsPath(node);
+                const target = query.includes('/') && fsPath
+                    ? (this.getWorkspaceLocation(fsPath)?.relativePath ?? fsPath)
+                    : this.getDisplayLabel(node);
+                return minimatch(target, query, { nocase: true, dot: true }) ? [[0, this.getDisplayLabel(node).length]] : undefined;
+            }
+
+            const highlights: [number, number][] = [];
+            const lowerLabel = this.getDisplayLabel(node).toLocaleLowerCase();
+            let index = lowerLabel.indexOf(lowerQuery);
+            while (index !== -1) {
+                highlights.push([index, index + lowerQuery.length]);
+                index = lowerLabel.indexOf(lowerQuery, index + lowerQuery.length);
+            }
+            return highlights.length ? highlights : undefined;
+        };
+
+        // 子孫に一致があれば先祖も表示対象にする
+        const visit = (nodes: ExplorerNode[]): boolean => {
+            let hasVisible = false;
+            for (const node of nodes) {
+                if (node.filePath && this.shouldExclude(node.filePath)) {
+                    continue;
+                }
 
-            // folder-ref配下のノードはウォッチャーが処理するためスキップ
-            if (!targetNode || this.isChildOfFolderRef(targetNode)) continue;
+                const highlights = match(node);
+                if (highlights) {
+                    this.filterMatches.set(node, highlights);
+                }
 
-            targetNode.label = path.basename(newPath);
-            if (targetNode.type === 'folder-ref') {
-                this.disposeWatcher(targetNode.id);
-                targetNode.linkedPath = newPath;
-                this.setupWatcher(targetNode);
-            } else if (targetNode.filePath) {
-                targetNode.filePath = newPath;
+                const hasVisibleChild = node.children ? visit(node.children) : false;
+                if (highlights || hasVisibleChild) {
+                    this.filterVisible.add(node);
+                    hasVisible = true;
+                }
             }
-            this.updatePathRecursive(targetNode, oldPath, newPath);
-            isChanged = true;
+            return hasVisible;
+        };
+        visit(this.liveSections);
+        visit(this.data);
+    }
+
+    private hasVisibleChildren(node: ExplorerNode): boolean {
+        return node.children?.some(child => this.filterVisible.has(child)) ?? false;
+    }
+
+    /** ツリー上での展開・折りたたみを保存する（フィルター中は解除後に元へ戻すため記録しない） */
+    public updateCollapsibleState(node: ExplorerNode, state: vscode.TreeItemCollapsibleState): void {
+        if (this.filterQuery || !this.isGroupLike(node) || node.collapsibleState === state) {
+            return;
+        }
+        node.collapsibleState = state;
+        this.recordDirectoryState(node, state);
+        if (node.type !== 'live-section' && !node.dynamicChild) {
+            this.persistLayouts();
         }
+    }
 
-        if (isChanged) this.saveAndRefresh();
+    /** folder-ref 配下のディレクトリの開閉状態は、子を保存しない代わりに folder-ref の expandedDirs に記録する */
+    private recordDirectoryState(node: ExplorerNode, state: vscode.TreeItemCollapsibleState): void {
+        const folderRef = node.type === 'group' ? this.getFolderRef(node) : undefined;
+        const relativePath = folderRef && this.getRelativeDirPath(folderRef, node);
+        if (!folderRef || !relativePath) {
+            return;
+        }
+
+        const expandedDirs = new Set(folderRef.expandedDirs);
+        if (state === vscode.TreeItemCollapsibleState.Expanded) {
+            expandedDirs.add(relativePath);
+        } else {
+            expandedDirs.delete(relativePath);
+        }
+        folderRef.expandedDirs = expandedDirs.size ? Array.from(expandedDirs).sort() : undefined;
     }
 
-    private updatePathRecursive(node: ExplorerNode, oldPrefix: string, newPrefix: string) {
-        node.children?.forEach(child => {
-            if (child.filePath?.startsWith(oldPrefix)) {
-                child.filePath = newPrefix + child.filePath.substring(oldPrefix.length);
-            }
-            this.updatePathRecursive(child, oldPrefix, newPrefix);
-        });
+    // node 自身または先祖の folder-ref
+    private getFolderRef(node: ExplorerNode): ExplorerNode | undefined {
+        let current: ExplorerNode | undefined = node;
+        while (current && current.type !== 'folder-ref') {
+            current = this.getParent(current);
+        }
+        return current;
     }
 
-    public handleFileDelete(files: readonly vscode.Uri[]) {
-        let isChanged = false;
-        for (const uri of files) {
-            const node = this.pathIndex.get(uri.fsPath);
-            // folder-ref配下のノードはウォッチャーが処理するためスキップ
-            if (node && !this.isChildOfFolderRef(node)) {
-                this.removeNode(node, false);
-                isChanged = true;
-            }
+    private getRelativeDirPath(folderRef: ExplorerNode, node: ExplorerNode): string | undefined {
+        const dirPath = this.resolveFsPath(node);
+        if (!folderRef.linkedPath || !dirPath || dirPath === folderRef.linkedPath) {
+            return undefined;
         }
-        if (isChanged) this.saveAndRefresh();
+        return path.relative(folderRef.linkedPath, dirPath).split(path.sep).join('/');
     }
 
     // --- TreeDataProvider実装 ---
 
     getTreeItem(element: ExplorerNode): vscode.TreeItem {
-        const treeItem = new vscode.TreeItem(
-            element.label,
-            this.isGroupLike(element)
-                ? (element.collapsibleState ?? vscode.TreeItemCollapsibleState.Expanded)
-                : vscode.TreeItemCollapsibleState.None
-        );
-
-        treeItem.id = element.id;
+        const highlights = this.filterMatches.get(element);
+        const collapsibleState = !this.isGroupLike(element) ? vscode.TreeItemCollapsibleState.None
+            : !this.filterQuery ? (element.collapsibleState ?? vscode.TreeItemCollapsibleState.Expanded)
+                // フィルター中は一致した子孫が見えるよう自動展開する
+                : this.hasVisibleChildren(element) ? vscode.TreeItemCollapsibleState.Expanded
+                    : vscode.TreeItemCollapsibleState.None;
+        const label = this.getDisplayLabel(element);
+        const treeItem = new vscode.TreeItem(highlights ? { label, highlights } : label, collapsibleState);
+
+        treeItem.id = this.idEpoch ? `${element.id}#${this.idEpoch}` : element.id;
         treeItem.contextValue = this.resolveContextValue(element);
 
         const transientKind = this.getRuntimeTransientKind(element);
@@ -886,51 +5145,257 @@ class CustomTreeDataProvider implements
         if (element.type === 'file-ref' && element.filePath) {
             treeItem.resourceUri = vscode.Uri.file(element.filePath);
             treeItem.command = { command: 'vscode.open', title: 'Open File', arguments: [treeItem.resourceUri] };
-            if (!this.isChildOfFolderRef(element)) {
-                const parentDir = path.basename(path.dirname(element.filePath));
-                treeItem.description = parentDir ? `${parentDir}/` : undefined;
+            if (element.missing) {
+                // 存在しないファイルは開かず、再リンクを促す
+                treeItem.command = { command: 'customExplorer.relinkEntry', title: 'Relink', arguments: [element] };
+                treeItem.description = '見つかりません';
+                treeItem.tooltip = `${element.filePath}\nファイルが見つかりません。クリックして再リンクします。`;
+            } else if (element.dynamicChild) {
+                treeItem.description = this.describeDynamicChild(element.filePath);
+            } else if (!this.isChildOfFolderRef(element)) {
+                treeItem.description = this.describeLocation(element, element.filePath);
             }
+        } else if (element.type === 'location-ref' && element.filePath) {
+            // 表示用URIはファイル全体の診断デコレーションと分けるため専用のものを使う
+            const range = this.getLocationRange(element);
+            treeItem.resourceUri = this.getDisplayUri(element);
+            treeItem.iconPath = new vscode.ThemeIcon('bookmark');
+            treeItem.description = element.missing ? '見つかりません' : this.describeLocationRange(element);
+            treeItem.tooltip = `${vscode.workspace.asRelativePath(element.filePath)} ${this.describeLocationRange(element)}`;
+            treeItem.command = element.missing
+                ? { command: 'customExplorer.relinkEntry', title: 'Relink', arguments: [element] }
+                : {
+                    command: 'vscode.open',
+                    title: 'Open Location',
+                    arguments: [vscode.Uri.file(element.filePath), { selection: range }],
+                };
+        } else if (element.type === 'symbol-ref' && element.filePath && element.symbol) {
+            const icon = this.getSymbolIcon(element.symbol.kind);
+            treeItem.resourceUri = this.getDisplayUri(element);
+            treeItem.iconPath = element.unresolved
+                ? new vscode.ThemeIcon(icon, new vscode.ThemeColor('list.warningForeground'))
+                : new vscode.ThemeIcon(icon);
+            treeItem.description = element.missing ? '見つかりません'
+                : element.unresolved ? 'シンボルが見つかりません'
+                    : [...element.symbol.containerPath, path.basename(element.filePath)].join(' · ');
+            treeItem.tooltip = `${vscode.workspace.asRelativePath(element.filePath)}\n`
+                + `${vscode.SymbolKind[element.symbol.kind]} ${[...element.symbol.containerPath, element.symbol.name].join('.')}`;
+            treeItem.command = element.missing
+                ? { command: 'customExplorer.relinkEntry', title: 'Relink', arguments: [element] }
+                : { command: 'customExplorer.openSymbol', title: 'Open Symbol', arguments: [element] };
+        } else if (element.type === 'action' && element.action) {
+            const { kind, target, icon } = element.action;
+            treeItem.resourceUri = this.getDisplayUri(element);
+            treeItem.iconPath = new vscode.ThemeIcon(icon || ACTION_KINDS[kind].icon);
+            treeItem.description = ACTION_KINDS[kind].label;
+            treeItem.tooltip = `${ACTION_KINDS[kind].label}: ${target}`;
+            treeItem.command = { command: 'customExplorer.runAction', title: 'Run Action', arguments: [element] };
+        } else if (element.type === 'query-group') {
+            treeItem.resourceUri = this.getDisplayUri(element);
+            treeItem.iconPath = new vscode.ThemeIcon('search');
+            treeItem.description = this.describeQuery(element);
+            treeItem.tooltip = this.buildQueryTooltip(element);
+        } else if (element.type === 'live-section' && element.liveKind) {
+            treeItem.resourceUri = this.getDisplayUri(element);
+            treeItem.iconPath = new vscode.ThemeIcon(LIVE_SECTIONS[element.liveKind].icon);
+            treeItem.description = `(${element.children?.length ?? 0})`;
+        } else if (element.type === 'git-group' && element.git) {
+            const kind = GIT_GROUP_KINDS[element.git.kind];
+            treeItem.resourceUri = this.getDisplayUri(element);
+            treeItem.iconPath = new vscode.ThemeIcon(kind.icon);
+            treeItem.description = element.dynamicError ?? `(${element.children?.length ?? 0})`;
+            treeItem.tooltip = element.git.ref ? `${kind.description}: ${element.git.ref}` : kind.description;
         } else {
             treeItem.resourceUri = this.getDisplayUri(element);
             treeItem.iconPath = vscode.ThemeIcon.Folder;
             if (element.type === 'folder-ref' && element.linkedPath) {
-                const parentDir = path.basename(path.dirname(element.linkedPath));
-                treeItem.description = parentDir ? `${parentDir}/` : undefined;
+                treeItem.description = element.missing
+                    ? '見つかりません'
+                    : this.describeLocation(element, element.linkedPath);
             }
         }
 
+        this.applyAppearance(treeItem, element);
+        this.applyNote(treeItem, element);
         return treeItem;
     }
 
+    // メモは既存のツールチップの下に Markdown で表示し、説明の先頭に印を付ける
+    private applyNote(treeItem: vscode.TreeItem, element: ExplorerNode) {
+        if (!element.note) {
+            return;
+        }
+        const tooltip = new vscode.MarkdownString(undefined, true);
+        if (typeof treeItem.tooltip === 'string') {
+            tooltip.appendText(treeItem.tooltip).appendMarkdown('\n\n---\n\n');
+        }
+        tooltip.appendMarkdown(element.note);
+        treeItem.tooltip = tooltip;
+        treeItem.description = typeof treeItem.description === 'string' && treeItem.description
+            ? `${NOTE_INDICATOR} ${treeItem.description}`
+            : NOTE_INDICATOR;
+    }
+
+    /** ツリー上のノードか（取り除かれた・元に戻すで置き換えられたノードでないか） */
+    private isAttached(node: ExplorerNode): boolean {
+        return this.getIndexedRoot(node) === this.data;
+    }
+
+    /** メモを保存する。空のメモは削除として扱う。ノードがツリーに残っていなければ false を返す */
+    public setNote(node: ExplorerNode, note: string): boolean {
+        if (!this.isAttached(node)) {
+            return false;
+        }
+        const normalized = note.trim() ? note.replace(/\s+$/, '') : undefined;
+        if (normalized === node.note) {
+            return true;
+        }
+        this.recordHistory();
+        node.note = normalized;
+        this.saveAndRefresh([this.getParent(node)]);
+        return true;
+    }
+
+    /** 外観の設定で表示名を上書きしたノードはその名前、それ以外はノードの名前 */
+    public getDisplayLabel(node: ExplorerNode): string {
+        return node.appearance?.alias || node.label;
+    }
+
+    // 外観やメモは保存されるノードにのみ付けられる（実ファイル由来のノードは再生成されるため対象外）
+    public canAnnotateNode(node: ExplorerNode): boolean {
+        return node.type !== 'live-section' && !node.dynamicChild && !node.transientKind && !this.isChildOfFolderRef(node);
+    }
+
+    // アイコンと色は、ファイルの種類を表すアイコンを持つ file-ref には付けない
+    public canStyleNode(node: ExplorerNode): boolean {
+        return node.type !== 'file-ref' && this.canAnnotateNode(node);
+    }
+
+    private applyAppearance(treeItem: vscode.TreeItem, element: ExplorerNode) {
+        const appearance = element.appearance;
+        if (!appearance) {
+            return;
+        }
+        // 参照切れなどの状態表示は上書きしない
+        if (appearance.description !== undefined && !element.missing && !element.unresolved) {
+            treeItem.description = appearance.description;
+        }
+        if (!this.canStyleNode(element)) {
+            return;
+        }
+
+        const color = appearance.color ? new vscode.ThemeColor(appearance.color) : undefined;
+        if (appearance.icon) {
+            treeItem.iconPath = new vscode.ThemeIcon(appearance.icon, color);
+        }
+        // 実ファイルの URI のままでは色が付かないため、グループ専用の URI でデコレーションを受ける
+        if (color && treeItem.resourceUri?.scheme === 'file') {
+            treeItem.resourceUri = this.getGroupUri(element);
+        }
+    }
+
+    /** 外観を部分的に更新する。undefined または空文字の項目は既定に戻す */
+    public setAppearance(node: ExplorerNode, patch: Partial<NodeAppearance>): void {
+        this.recordHistory();
+        const merged: NodeAppearance = { ...node.appearance, ...patch };
+        const appearance = (Object.keys(merged) as (keyof NodeAppearance)[])
+            .filter(key => merged[key])
+            .reduce<NodeAppearance>((result, key) => ({ ...result, [key]: merged[key] }), {});
+        node.appearance = Object.keys(appearance).length ? appearance : undefined;
+        this.saveAndRefresh([this.getParent(node)]);
+        this._onDidChangeDecorations.fire([this.getDisplayUri(node), this.getGroupUri(node)]);
+    }
+
+    private describeLocationRange(node: ExplorerNode): string {
+        const fileName = node.filePath ? path.basename(node.filePath) : '';
+        const range = this.unsavedRanges.get(node) ?? node.range;
+        if (!range) {
+            return fileName;
+        }
+        const { startLine, endLine } = range;
+        return startLine === endLine ? `${fileName}:${startLine + 1}` : `${fileName}:${startLine + 1}-${endLine + 1}`;
+    }
+
+    // 検索結果のファイルはワークスペースフォルダーからの相対ディレクトリを表示する
+    private describeDynamicChild(filePath: string): string | undefined {
+        const location = this.getWorkspaceLocation(filePath);
+        if (!location) {
+            return path.dirname(filePath);
+        }
+
+        const dir = path.posix.dirname(location.relativePath);
+        const dirLabel = dir === '.' ? undefined : `${dir}/`;
+        return this.isMultiRoot()
+            ? [location.folder.name, dirLabel].filter(Boolean).join(' · ')
+            : dirLabel;
+    }
+
+    private describeQuery(node: ExplorerNode): string {
+        const count = node.children?.length ?? 0;
+        const patterns = node.query?.include.join(', ') ?? '';
+        return node.orphaned
+            ? `${patterns} · ${node.workspaceFolder} (フォルダーが開かれていません)`
+            : `${patterns} (${count >= QUERY_GROUP_MAX_RESULTS ? `${QUERY_GROUP_MAX_RESULTS}+` : count})`;
+    }
+
+    private buildQueryTooltip(node: ExplorerNode): string {
+        const lines = [`include: ${node.query?.include.join(', ') ?? ''}`];
+        if (node.query?.exclude.length) {
+            lines.push(`exclude: ${node.query.exclude.join(', ')}`);
+        }
+        lines.push(`scope: ${node.linkedPath ? vscode.workspace.asRelativePath(node.linkedPath) : 'ワークスペース全体'}`);
+        return lines.join('\n');
+    }
+
+    // SymbolKind.EnumMember -> 'symbol-enum-member' のように codicon 名へ変換する
+    private getSymbolIcon(kind: vscode.SymbolKind): string {
+        const name = vscode.SymbolKind[kind] ?? 'Misc';
+        return `symbol-${name.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase()}`;
+    }
+
     private resolveContextValue(element: ExplorerNode): string {
         if (this.getRuntimeTransientKind(element)) {
             return 'inline-creation';
         }
+        if (element.dynamicChild) {
+            return 'dynamic-file';
+        }
         if (element.type === 'folder-ref') {
             return 'folder-ref';
         }
         if (this.isChildOfFolderRef(element)) {
             return element.type === 'file-ref' ? 'folder-ref-child-file' : 'folder-ref-child-folder';
         }
-        return element.type; // 'group' or 'file-ref'
+        return element.type; // 'group', 'file-ref', 'query-group', 'git-group' or 'live-section'
     }
 
-    getChildren(element?: ExplorerNode): ExplorerNode[] {
-        const nodes = [...(element ? (element.children ?? []) : this.data)];
+    getChildren(element?: ExplorerNode): ExplorerNode[] | Promise<ExplorerNode[]> {
+        if (element && this.isDirectoryNode(element) && !this.loadedDirectories.has(element)) {
+            return this.loadDirectory(element, false).then(() => this.getVisibleChildren(element));
+        }
+        return this.getVisibleChildren(element);
+    }
+
+    private getVisibleChildren(element?: ExplorerNode): ExplorerNode[] {
+        const nodes = [...(element ? (element.children ?? []) : [...this.getVisibleLiveSections(), ...this.data])];
         if (this.pendingCreation && this.pendingCreation.parent === element) {
             nodes.unshift(this.pendingCreation.node);
         }
-        return nodes.filter(n => n.transientKind || !n.filePath || !this.shouldExclude(n.filePath));
+        return nodes
+            .filter(n => n.transientKind || !n.filePath || !this.shouldExclude(n.filePath))
+            .filter(n => !this.filterQuery || n.transientKind || this.filterVisible.has(n));
     }
 
     getParent(element: ExplorerNode): ExplorerNode | undefined {
         if (this.isPendingCreationNode(element)) {
             return this.pendingCreation?.parent;
         }
-        if (this.isPendingRenameNode(element)) {
-            return this.findParent(this.data, element);
+        const link = this.getValidLink(element);
+        if (link) {
+            return link.parent;
         }
-        return this.findParent(this.data, element);
+        // インデックスの付け直し前に加わったノード
+        return this.findParent(this.data, element) ?? this.findParent(this.liveSections, element);
     }
 
     private findParent(nodes: ExplorerNode[], target: ExplorerNode): ExplorerNode | undefined {
@@ -988,15 +5453,23 @@ class CustomTreeDataProvider implements
     }
 
     public async handleDrop(target: ExplorerNode | undefined, dataTransfer: vscode.DataTransfer, _token: vscode.CancellationToken): Promise<void> {
+        // folder-ref およびその配下へのドロップは実ファイルの移動・コピーとして扱う
+        const targetDir = target ? this.resolveDropDirectory(target) : undefined;
         const internalDrag = dataTransfer.get(MIME_INTERNAL);
         if (internalDrag) {
             const sources: ExplorerNode[] = internalDrag.value;
+            if (targetDir) {
+                await this.transferFiles(this.collectTransferPaths(sources), targetDir);
+                return;
+            }
             this.moveNodes(sources, target);
             return;
         }
 
-        // 外部(OS)からのD&Dは folder-ref およびその配下へのドロップを禁止する
-        if (target && (target.type === 'folder-ref' || this.isChildOfFolderRef(target))) return;
+        // 外部(OS)からのD&Dは動的グループへのドロップを禁止する
+        if (target && (this.isDynamicGroup(target) || target.dynamicChild)) {
+            return;
+        }
 
         const uriListItem = dataTransfer.get('text/uri-list');
         const plainTextItem = dataTransfer.get('text/plain');
@@ -1007,6 +5480,13 @@ class CustomTreeDataProvider implements
         if (!uriString) return;
 
         const paths = this.resolveDroppedPaths(uriString);
+        if (targetDir) {
+            await this.transferFiles(paths, targetDir);
+            return;
+        }
+        if (target && (target.type === 'folder-ref' || this.isChildOfFolderRef(target))) {
+            return;
+        }
         for (const fsPath of paths) {
             if (fs.statSync(fsPath).isDirectory()) {
                 this.addFolderRef(fsPath, target);
@@ -1016,6 +5496,141 @@ class CustomTreeDataProvider implements
         }
     }
 
+    /** ドロップ先が folder-ref 配下の場合、移動・コピー先となる実ディレクトリを返す */
+    private resolveDropDirectory(target: ExplorerNode): string | undefined {
+        if (target.type === 'folder-ref') {
+            return target.linkedPath && !target.missing && !target.orphaned ? target.linkedPath : undefined;
+        }
+        if (!this.isChildOfFolderRef(target)) {
+            return undefined;
+        }
+        // folder-ref 配下のファイルへのドロップは、そのファイルのあるディレクトリへのドロップとみなす
+        return target.type === 'file-ref' && target.filePath
+            ? path.dirname(target.filePath)
+            : this.resolveGroupFsPath(target);
+    }
+
+    // 実ファイルを持つノード（file-ref、folder-ref 配下のファイル・フォルダー、動的グループの子）の実パス
+    private collectTransferPaths(sources: readonly ExplorerNode[]): string[] {
+        const paths = sources
+            .filter(node => node.type === 'file-ref' || this.isChildOfFolderRef(node))
+            .map(node => this.resolveFsPath(node))
+            .filter((fsPath): fsPath is string => fsPath !== undefined && fs.existsSync(fsPath));
+        return Array.from(new Set(paths));
+    }
+
+    /**
+     * 実ファイルを targetDir へ移動またはコピーする。
+     * operation 未指定時は customExplorer.dragAndDrop.fileOperation に従い、'ask' の場合は確認する。
+     * 同名のファイルがある場合は上書き・両方を保持・スキップを選択させる（autoRename の場合は確認せず両方を保持）。
+     */
+    private async transferFiles(
+        sourcePaths: string[],
+        targetDir: string,
+        { operation, autoRename = false }: { operation?: 'move' | 'copy'; autoRename?: boolean } = {}
+    ): Promise<void> {
+        // 自分自身や自分の配下へのフォルダーの移動・コピーは行わない
+        const sources = sourcePaths.filter(fsPath =>
+            fsPath !== targetDir && !targetDir.startsWith(fsPath + path.sep));
+        if (sources.length === 0) {
+            return;
+        }
+
+        operation ??= await this.pickTransferOperation(sources, targetDir);
+        if (!operation) {
+            return;
+        }
+
+        const renamed: { oldUri: vscode.Uri; newUri: vscode.Uri }[] = [];
+        for (const sourcePath of sources) {
+            let destination = path.join(targetDir, path.basename(sourcePath));
+            if (destination === sourcePath) {
+                // 同じディレクトリへのコピーは複製を作り、移動は何もしない
+                if (operation === 'move') {
+                    continue;
+                }
+                destination = this.findAvailablePath(destination);
+            }
+
+            let overwrite = false;
+            if (fs.existsSync(destination) && autoRename) {
+                destination = this.findAvailablePath(destination);
+            } else if (fs.existsSync(destination)) {
+                const resolution = await vscode.window.showWarningMessage(
+                    `"${path.basename(destination)}" は移動先に既に存在します。`,
+                    { modal: true, detail: destination },
+                    '上書き',
+                    '両方を保持',
+                    'スキップ'
+                );
+                if (!resolution || resolution === 'スキップ') {
+                    continue;
+                }
+                if (resolution === '上書き') {
+                    overwrite = true;
+                } else {
+                    destination = this.findAvailablePath(destination);
+                }
+            }
+
+            const sourceUri = vscode.Uri.file(sourcePath);
+            const destinationUri = vscode.Uri.file(destination);
+            try {
+                if (operation === 'move') {
+                    // 他の拡張機能の名前変更処理 (import の書き換え等) が動くよう、WorkspaceEdit として適用する
+                    const edit = new vscode.WorkspaceEdit();
+                    edit.renameFile(sourceUri, destinationUri, { overwrite });
+                    if (!await vscode.workspace.applyEdit(edit)) {
+                        throw new Error('ファイルの移動が適用されませんでした。');
+                    }
+                    renamed.push({ oldUri: sourceUri, newUri: destinationUri });
+                } else {
+                    await vscode.workspace.fs.copy(sourceUri, destinationUri, { overwrite });
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                void vscode.window.showErrorMessage(
+                    `${path.basename(sourcePath)} の${operation === 'move' ? '移動' : 'コピー'}に失敗しました: ${message}`
+                );
+            }
+        }
+
+        // 移動したファイルを指す file-ref を追従させる（folder-ref の子はウォッチャーが再構築する）。
+        // onDidRenameFiles からも呼ばれるが、その時点で追従済みであれば何も変わらない
+        if (renamed.length > 0) {
+            this.handleFileRename(renamed);
+        }
+    }
+
+    private async pickTransferOperation(sources: string[], targetDir: string): Promise<'move' | 'copy' | undefined> {
+        const setting = vscode.workspace.getConfiguration('customExplorer').get<string>('dragAndDrop.fileOperation');
+        if (setting === 'move' || setting === 'copy') {
+            return setting;
+        }
+
+        const subject = sources.length === 1 ? `"${path.basename(sources[0])}"` : `${sources.length} 件の項目`;
+        const action = await vscode.window.showInformationMessage(
+            `${subject}を "${path.basename(targetDir)}" に移動またはコピーしますか？`,
+            { modal: true, detail: targetDir },
+            '移動',
+            'コピー'
+        );
+        return action === '移動' ? 'move' : action === 'コピー' ? 'copy' : undefined;
+    }
+
+    /** "name copy.ext", "name copy 2.ext" ... のうち存在しないパスを返す */
+    private findAvailablePath(fsPath: string): string {
+        const dir = path.dirname(fsPath);
+        const ext = path.extname(fsPath);
+        const base = path.basename(fsPath, ext);
+        for (let i = 1; ; i++) {
+            const candidate = path.join(dir, `${base} copy${i > 1 ? ` ${i}` : ''}${ext}`);
+            if (!fs.existsSync(candidate)) {
+                return candidate;
+            }
+        }
+    }
+
     private resolveDroppedPaths(uriString: string): string[] {
         return uriString
             .split(/\r?\n/)
@@ -1031,7 +5646,9 @@ class CustomTreeDataProvider implements
         const config = vscode.workspace.getConfiguration('files', vscode.Uri.file(filePath));
         const excludes = config.get<{ [key: string]: boolean }>('exclude') || {};
 
-        const relativePath = vscode.workspace.asRelativePath(filePath, false).split(path.sep).join('/');
+        // マルチルートでも所属するワークスペースフォルダーからの相対パスで照合する
+        const relativePath = this.getWorkspaceLocation(filePath)?.relativePath
+            ?? vscode.workspace.asRelativePath(filePath, false).split(path.sep).join('/');
         const fileName = path.basename(filePath);
 
         for (const pattern in excludes) {
@@ -1105,7 +5722,7 @@ class CustomTreeDataProvider implements
         this.cancelInlineCreation();
         this.cancelInlineRename();
 
-        this.pendingRename = { node, originalLabel: node.label, kind };
+        this.pendingRename = { node, originalLabel: node.label, kind, snapshot: this.captureSnapshot() };
         this.refreshParentOrRoot(node);
         return node;
     }
@@ -1136,70 +5753,213 @@ class CustomTreeDataProvider implements
             return;
         }
 
-        const pendingNode = this.pendingRename.node;
+        const { node: pendingNode, snapshot } = this.pendingRename;
         pendingNode.label = finalLabel ?? pendingNode.label;
         this.pendingRename = undefined;
 
         if (shouldSave) {
-            this.saveAndRefresh();
+            this.recordHistory(snapshot);
+            this.saveAndRefresh([this.getParent(pendingNode)]);
         } else {
             this.refreshParentOrRoot(pendingNode);
         }
     }
 
-    public syncFolderRefAncestor(node: ExplorerNode): void {
-        let current: ExplorerNode | undefined = node;
-        while (current) {
-            if (current.type === 'folder-ref') {
-                this.syncFolderRef(current);
-                return;
+    /**
+     * 指定したディレクトリを表す、読み込み済みの folder-ref / グループの中身を読み直す。
+     * 該当するノードがなければ（通常のグループ配下での操作など）ビュー全体を再描画する。
+     */
+    public async syncDirectories(dirPaths: readonly string[]): Promise<void> {
+        const targets = new Set(Array.from(new Set(dirPaths)).flatMap(dirPath =>
+            this.getIndexed(this.pathIndex, dirPath, false)
+                .filter(node => this.isDirectoryNode(node) && this.loadedDirectories.has(node))));
+        if (targets.size === 0) {
+            this.refresh();
+            return;
+        }
+        await Promise.all(Array.from(targets, node => this.loadDirectory(node, true)));
+    }
+
+    /** 未読み込みの folder-ref 配下にあるパスは、途中のディレクトリを読み込んでから探す */
+    public async resolveNodeByPath(targetPath: string): Promise<ExplorerNode | undefined> {
+        const found = this.findNodeByPath(targetPath);
+        if (found) {
+            return found;
+        }
+
+        const dirPaths: string[] = [];
+        for (let dirPath = path.dirname(targetPath); ; dirPath = path.dirname(dirPath)) {
+            dirPaths.unshift(dirPath);
+            if (this.findDirectoryNode(dirPath)) {
+                break;
+            }
+            if (path.dirname(dirPath) === dirPath) {
+                return undefined;
+            }
+        }
+        for (const dirPath of dirPaths) {
+            const directory = this.findDirectoryNode(dirPath);
+            if (!directory) {
+                return undefined;
+            }
+            if (!this.loadedDirectories.has(directory)) {
+                await this.loadDirectory(directory, false);
             }
-            current = this.getParent(current);
         }
+        return this.findNodeByPath(targetPath);
+    }
 
-        this.refresh();
+    // folder-ref と、その配下で実ディレクトリを表すグループ
+    private isDirectoryNode(node: ExplorerNode): boolean {
+        return node.type === 'folder-ref' || (node.type === 'group' && this.isChildOfFolderRef(node));
     }
 
-    private collectCollapsibleStates(nodes: ExplorerNode[], states: Map<string, vscode.TreeItemCollapsibleState>): void {
-        for (const node of nodes) {
-            if (node.type === 'group') {
-                const fsPath = this.resolveFsPath(node);
-                if (fsPath) {
-                    states.set(fsPath, node.collapsibleState ?? vscode.TreeItemCollapsibleState.Collapsed);
+    private findDirectoryNode(dirPath: string): ExplorerNode | undefined {
+        return this.getIndexed(this.pathIndex, dirPath, false).find(node => this.isDirectoryNode(node));
+    }
+
+    private scheduleFolderSync(node: ExplorerNode, dirPath: string): void {
+        const pending = this.folderSyncQueue.get(node.id);
+        if (pending) {
+            clearTimeout(pending.timer);
+        }
+        const dirs = pending?.dirs ?? new Set<string>();
+        dirs.add(dirPath);
+        this.folderSyncQueue.set(node.id, {
+            dirs,
+            timer: setTimeout(() => {
+                this.folderSyncQueue.delete(node.id);
+                void this.syncDirectories(Array.from(dirs));
+            }, FOLDER_SYNC_DELAY_MS),
+        });
+    }
+
+    /** folder-ref 配下の読み込み済みのディレクトリをすべて読み直す（再接続時など） */
+    private syncFolderRef(node: ExplorerNode): void {
+        const targets: ExplorerNode[] = [];
+        this.forEachNode([node], current => {
+            if (this.loadedDirectories.has(current)) {
+                targets.push(current);
+            }
+        });
+        targets.forEach(target => void this.loadDirectory(target, true));
+    }
+
+    /** nodes 配下の folder-ref について、まだ読み込んでいないディレクトリを階層ごとに読み込む */
+    public async loadSubtrees(nodes: ExplorerNode[]): Promise<void> {
+        let directories: ExplorerNode[] = [];
+        this.forEachNode(nodes, node => {
+            if (node.type === 'folder-ref') {
+                directories.push(node);
+            }
+        });
+        directories.push(...nodes.filter(node => node.type === 'group' && this.isChildOfFolderRef(node)));
+
+        while (directories.length) {
+            await Promise.all(directories.map(directory =>
+                this.loadedDirectories.has(directory) ? undefined : this.loadDirectory(directory, false)));
+            directories = directories.flatMap(directory => (directory.children ?? []).filter(child => child.type === 'group'));
+        }
+    }
+
+    /**
+     * ディレクトリを非同期に読み込み、そのノードの子だけを差し替える。
+     * 既存の子は実パスが一致すれば使い回し、開閉状態や読み込み済みの配下を保つ。
+     * notify: 読み込み後にそのノードを再描画する（getChildren からの読み込みでは不要）
+     */
+    private loadDirectory(node: ExplorerNode, notify: boolean): Promise<void> {
+        const pending = this.directoryLoads.get(node);
+        if (pending) {
+            return notify ? pending.then(() => this.loadDirectory(node, true)) : pending;
+        }
+
+        const load = this.readDirectoryChildren(node)
+            .then(children => {
+                if (children) {
+                    this.setDirectoryChildren(node, children, notify);
                 }
+            })
+            .finally(() => this.directoryLoads.delete(node));
+        this.directoryLoads.set(node, load);
+        return load;
+    }
+
+    private async readDirectoryChildren(node: ExplorerNode): Promise<ExplorerNode[] | undefined> {
+        const dirPath = this.resolveFsPath(node);
+        if (!dirPath || node.orphaned) {
+            return [];
+        }
+
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(dirPath));
+        } catch {
+            // 存在しないディレクトリは空として扱う（参照切れの表示は存在確認が行う）
+            entries = [];
+        }
+        // 読み込み中に取り除かれた・参照先が変わった場合は反映しない
+        if (!this.getIndexedRoot(node) || this.resolveFsPath(node) !== dirPath) {
+            return undefined;
+        }
+
+        const folderRef = this.getFolderRef(node);
+        const expandedDirs = new Set(folderRef?.expandedDirs);
+        // インデックス上の実パスで照合する（インライン名前変更でラベルだけ先に変わった子を使い回さない）
+        const existing = new Map((node.children ?? []).map(child =>
+            [this.indexEntries.get(child)?.fsPath ?? this.resolveFsPath(child), child]));
+        const children: ExplorerNode[] = [];
+        for (const [name, type] of entries) {
+            const fullPath = path.join(dirPath, name);
+            if (name === '.DS_Store' || this.shouldExclude(fullPath)) {
+                continue;
+            }
+            if (type & vscode.FileType.SymbolicLink) {
+                continue;
             }
 
-            if (node.children) {
-                this.collectCollapsibleStates(node.children, states);
+            const current = existing.get(fullPath);
+            if (type & vscode.FileType.Directory) {
+                const relativePath = folderRef?.linkedPath && path.relative(folderRef.linkedPath, fullPath).split(path.sep).join('/');
+                const state = relativePath && expandedDirs.has(relativePath)
+                    ? vscode.TreeItemCollapsibleState.Expanded
+                    : vscode.TreeItemCollapsibleState.Collapsed;
+                children.push(current?.type === 'group' ? current : this.createGroupNode(name, state));
+            } else if (type & vscode.FileType.File) {
+                children.push(current?.type === 'file-ref' ? current : this.createFileNode(name, fullPath));
             }
         }
+        return children;
     }
 
-    // importDirectory と syncFolderRef から共用するディレクトリ再帰スキャン処理
-    // skipSymlinks: folder-ref の同期時のみ true（シンボリックリンクをスキップ）
-    private scanDirectory(
-        currentPath: string,
-        parentNode: ExplorerNode,
-        options: {
-            skipSymlinks: boolean;
-            collapsibleStates?: Map<string, vscode.TreeItemCollapsibleState>;
+    private setDirectoryChildren(node: ExplorerNode, children: ExplorerNode[], notify: boolean): void {
+        node.children = children;
+        this.loadedDirectories.add(node);
+        const changed = this.updateScopes([node]);
+        if (changed) {
+            this.updateWorkspaceLocations(changed);
+        } else {
+            this.rebuildIndex();
         }
-    ): void {
+        if (notify) {
+            this._onDidChangeTreeData.fire(this.filterQuery ? undefined : node);
+        }
+    }
+
+    // importDirectory と addEntries から共用する、静的なグループとして取り込むためのディレクトリ再帰スキャン処理
+    private scanDirectory(currentPath: string, parentNode: ExplorerNode): void {
         try {
             const items = fs.readdirSync(currentPath, { withFileTypes: true });
             for (const item of items) {
-                if (this.shouldExclude(item.name)) continue;
-                if (options.skipSymlinks && item.isSymbolicLink()) continue;
-                if (item.name === '.DS_Store') continue;
-
                 const fullPath = path.join(currentPath, item.name);
+                if (this.shouldExclude(fullPath)) {
+                    continue;
+                }
+                if (item.name === '.DS_Store') continue;
 
                 if (item.isDirectory()) {
-                    const collapsibleState = options.collapsibleStates?.get(fullPath)
-                        ?? vscode.TreeItemCollapsibleState.Collapsed;
-                    const subGroup = this.createGroupNode(item.name, collapsibleState);
+                    const subGroup = this.createGroupNode(item.name, vscode.TreeItemCollapsibleState.Collapsed);
                     (parentNode.children ??= []).push(subGroup);
-                    this.scanDirectory(fullPath, subGroup, options);
+                    this.scanDirectory(fullPath, subGroup);
                 } else if (item.isFile()) {
                     (parentNode.children ??= []).push(this.createFileNode(item.name, fullPath));
                 }
@@ -1209,136 +5969,379 @@ class CustomTreeDataProvider implements
         }
     }
 
-    private syncFolderRef(node: ExplorerNode): void {
-        if (node.type !== 'folder-ref' || !node.linkedPath) return;
-
-        if (!fs.existsSync(node.linkedPath)) {
-            node.children = [];
-            this.saveAndRefresh();
-            return;
-        }
-
-        const collapsibleStates = new Map<string, vscode.TreeItemCollapsibleState>();
-        if (node.children) {
-            this.collectCollapsibleStates(node.children, collapsibleStates);
-        }
-
-        node.children = [];
-        this.scanDirectory(node.linkedPath, node, {
-            skipSymlinks: true,
-            collapsibleStates,
-        });
-        this.saveAndRefresh();
-    }
-
     public importDirectory(dirPath: string, parent?: ExplorerNode) {
         const dirName = path.basename(dirPath);
-        if (this.shouldExclude(dirName)) return;
+        if (this.shouldExclude(dirPath)) {
+            return;
+        }
 
         const newGroupNode: ExplorerNode = {
             ...this.createGroupNode(dirName),
             filePath: dirPath,
         };
 
-        this.appendToParent(newGroupNode, parent);
-        this.scanDirectory(dirPath, newGroupNode, { skipSymlinks: false });
-        this.saveAndRefresh();
+        this.recordHistory();
+        const scope = this.appendToParent(newGroupNode, parent);
+        this.scanDirectory(dirPath, newGroupNode);
+        this.saveAndRefresh([scope]);
     }
 
     public addGroup(
         label: string,
         parent?: ExplorerNode,
         collapsibleState = vscode.TreeItemCollapsibleState.Expanded
-    ) {
-        this.appendToParent(this.createGroupNode(label, collapsibleState), parent);
-        this.saveAndRefresh();
+    ): ExplorerNode {
+        const node = this.createGroupNode(label, collapsibleState);
+        this.recordHistory();
+        const scope = this.appendToParent(node, parent);
+        this.saveAndRefresh([scope]);
+        return node;
     }
 
     public addFile(filePath: string, parent?: ExplorerNode) {
         const fileName = path.basename(filePath);
-        if (this.shouldExclude(fileName)) return;
-        this.appendToParent(this.createFileNode(fileName, filePath), parent);
-        this.saveAndRefresh();
+        if (this.shouldExclude(filePath)) {
+            return;
+        }
+        this.recordHistory();
+        const scope = this.appendToParent(this.createFileNode(fileName, filePath), parent);
+        this.saveAndRefresh([scope]);
     }
 
     public addFolderRef(dirPath: string, parent?: ExplorerNode) {
         const dirName = path.basename(dirPath);
-        if (this.shouldExclude(dirName)) return;
+        if (this.shouldExclude(dirPath)) {
+            return;
+        }
 
         const newNode = this.createFolderRefNode(dirName, dirPath);
-        this.appendToParent(newNode, parent);
-        this.syncFolderRef(newNode);
+        this.recordHistory();
+        const scope = this.appendToParent(newNode, parent);
+        this.saveAndRefresh([scope]);
         this.setupWatcher(newNode);
     }
 
-    public convertToGroup(node: ExplorerNode): void {
-        if (node.type !== 'folder-ref') return;
+    /** 変換後は再スキャンしなくなるため、まだ読み込んでいない配下のディレクトリもすべて読み込んでから変換する */
+    public async convertToGroup(node: ExplorerNode): Promise<void> {
+        if (node.type !== 'folder-ref') {
+            return;
+        }
+        await this.loadSubtrees([node]);
+        if (node.type !== 'folder-ref' || !this.isAttached(node)) {
+            return;
+        }
+
+        this.recordHistory();
         this.disposeWatcher(node.id);
         node.type = 'group';
         node.linkedPath = undefined;
-        this.saveAndRefresh();
+        node.expandedDirs = undefined;
+        this.saveAndRefresh([this.getParent(node)]);
+    }
+
+    /**
+     * 複数のファイル・フォルダーをまとめて追加し、1回の操作として履歴に記録する。
+     * フォルダーは mode に応じてライブの folder-ref または静的なグループとして取り込む。
+     * 追加先に同じ実パスを指す項目が既にあるものは追加せず、skipped として返す。
+     */
+    public addEntries(
+        entries: { fsPath: string; mode: 'file' | 'folder-ref' | 'snapshot' }[],
+        parent?: ExplorerNode
+    ): { added: ExplorerNode[]; skipped: string[] } {
+        const destination = parent && this.isGroupLike(parent) && !this.isDynamicGroup(parent)
+            ? (parent.children ?? [])
+            : this.data;
+        const existingPaths = new Set(destination.map(node => this.getNodeFsPath(node)));
+
+        const snapshot = this.captureSnapshot();
+        const added: ExplorerNode[] = [];
+        const skipped: string[] = [];
+        let scope: ExplorerNode | undefined;
+        for (const { fsPath, mode } of entries) {
+            if (this.shouldExclude(fsPath)) {
+                continue;
+            }
+            if (existingPaths.has(fsPath)) {
+                skipped.push(fsPath);
+                continue;
+            }
+            existingPaths.add(fsPath);
+
+            const name = path.basename(fsPath);
+            let node: ExplorerNode;
+            if (mode === 'file') {
+                node = this.createFileNode(name, fsPath);
+            } else if (mode === 'folder-ref') {
+                node = this.createFolderRefNode(name, fsPath);
+            } else {
+                node = { ...this.createGroupNode(name), filePath: fsPath };
+                this.scanDirectory(fsPath, node);
+            }
+            scope = this.appendToParent(node, parent);
+            added.push(node);
+        }
+
+        if (added.length > 0) {
+            this.recordHistory(snapshot);
+            this.saveAndRefresh([scope]);
+            this.restoreWatchers(added);
+        }
+        return { added, skipped };
     }
 
-    private appendToParent(node: ExplorerNode, parent?: ExplorerNode) {
-        if (parent && this.isGroupLike(parent)) {
+    /** 追加先の階層（ルートの場合は undefined）を返す */
+    private appendToParent(node: ExplorerNode, parent?: ExplorerNode): ExplorerNode | undefined {
+        if (parent && this.isGroupLike(parent) && !this.isDynamicGroup(parent)) {
             (parent.children ??= []).push(node);
             parent.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
-        } else {
-            this.data.push(node);
+            return parent;
+        }
+        this.data.push(node);
+        return undefined;
+    }
+
+    /** 複数ノードをまとめて取り除き、1回の操作として履歴に記録する。取り除いた件数を返す */
+    public removeNodes(nodes: readonly ExplorerNode[]): number {
+        const snapshot = this.captureSnapshot();
+        const scopes = nodes.map(node => this.getParent(node));
+        const removedCount = nodes.filter(node => this.removeNode(node, false)).length;
+        if (removedCount === 0) {
+            return 0;
         }
+
+        this.recordHistory(snapshot);
+        this.saveAndRefresh(scopes);
+        return removedCount;
     }
 
     public removeNode(node: ExplorerNode, shouldSave = true): boolean {
         if (!node) return false;
-        if (this.isChildOfFolderRef(node)) return false;
-        if (node.type === 'folder-ref') this.disposeWatcher(node.id);
+        if (this.isChildOfFolderRef(node) || node.dynamicChild) {
+            return false;
+        }
+        // 配下の folder-ref / query-group のウォッチャーもまとめて破棄する
+        this.forEachNode([node], n => this.disposeWatcher(n.id));
 
         const removeRecursive = (nodes: ExplorerNode[]): boolean => {
             const index = nodes.findIndex(n => n.id === node.id);
             if (index !== -1) {
+                // 兄弟配列はそのまま残るため、親リンクが有効なままにならないよう外す
+                this.parentLinks.delete(nodes[index]);
                 nodes.splice(index, 1);
                 return true;
             }
             return nodes.some(n => n.children && removeRecursive(n.children));
         };
 
-        const result = removeRecursive(this.data);
-        if (shouldSave && result) this.saveAndRefresh();
+        // 親リンクから兄弟配列を引き、見つからない場合（元に戻す前のノードなど）は ID でツリーを探す
+        const parent = this.getParent(node);
+        const result = removeRecursive(parent ? parent.children ?? [] : this.data) || removeRecursive(this.data);
+        if (shouldSave && result) {
+            this.saveAndRefresh([parent]);
+        }
         return result;
     }
 
+    /**
+     * グループへのドロップは末尾に追加し、file-ref へのドロップはその隣に挿入する。
+     * 挿入位置が意味を持つのは手動並べ替えのグループのみで、それ以外は保存時に並べ替えられる。
+     */
     private moveNodes(sources: ExplorerNode[], target: ExplorerNode | undefined) {
+        const snapshot = this.captureSnapshot();
+        const scopes = this.relocateNodes(sources, target);
+        if (!scopes) {
+            return;
+        }
+        this.recordHistory(snapshot);
+        this.saveAndRefresh(scopes);
+    }
+
+    /** sources を target へ移し、変更のあった階層を返す（何も移さなかった場合は undefined）。履歴の記録と保存は呼び出し側で行う */
+    private relocateNodes(sources: ExplorerNode[], target: ExplorerNode | undefined): (ExplorerNode | undefined)[] | undefined {
         const isDescendant = (parent: ExplorerNode, potentialChild: ExplorerNode): boolean =>
             parent.children?.some(child => child === potentialChild || isDescendant(child, potentialChild)) ?? false;
 
-        const isValidMove = (source: ExplorerNode, target?: ExplorerNode): boolean => {
-            if (this.isChildOfFolderRef(source)) return false;
+        const isValidTarget = (target?: ExplorerNode): boolean => {
             if (target && (target.type === 'folder-ref' || this.isChildOfFolderRef(target))) return false;
+            if (target && (this.isDynamicGroup(target) || target.dynamicChild)) {
+                return false;
+            }
+            return true;
+        };
+
+        const isValidMove = (source: ExplorerNode, target?: ExplorerNode): boolean => {
+            if (this.isChildOfFolderRef(source) || source.dynamicChild) {
+                return false;
+            }
+            if (!isValidTarget(target)) {
+                return false;
+            }
             if (source === target) return false;
             if (!target) return true;
             return !isDescendant(source, target);
         };
 
-        let isChanged = false;
+        // file-ref へのドロップは、その親グループ（またはルート）の file-ref の隣を挿入先とする
+        const anchor = target && !this.isGroupLike(target) ? target : undefined;
+        const parent = anchor ? this.getParent(anchor) : target;
+        const destination = parent ? (parent.children ??= []) : this.data;
+
+        // 同じ階層で下方向へ動かす場合はアンカーの後ろ、それ以外は前に挿入する
+        const firstSource = sources.find(source => isValidMove(source, target));
+        const insertAfter = !!anchor && !!firstSource
+            && destination.indexOf(firstSource) !== -1
+            && destination.indexOf(firstSource) < destination.indexOf(anchor);
+
+        const moved: ExplorerNode[] = [];
+        const scopes: (ExplorerNode | undefined)[] = [parent];
         for (const source of sources) {
+            // 動的グループの子は移動せず、通常の file-ref としてコピーする
+            if (source.dynamicChild) {
+                if (!isValidTarget(target) || !source.filePath) {
+                    continue;
+                }
+                if (destination.some(n => n.type === 'file-ref' && n.filePath === source.filePath)) {
+                    continue;
+                }
+                moved.push(this.createFileNode(source.label, source.filePath));
+                continue;
+            }
             if (!isValidMove(source, target)) continue;
+            const sourceParent = this.getParent(source);
             if (!this.removeNode(source, false)) continue;
+            scopes.push(sourceParent);
+            moved.push(source);
+        }
 
-            if (target && this.isGroupLike(target)) {
-                (target.children ??= []).push(source);
-                target.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
-            } else {
-                this.data.push(source);
+        if (moved.length === 0) {
+            return undefined;
+        }
+
+        const anchorIndex = anchor ? destination.indexOf(anchor) : -1;
+        const insertIndex = anchorIndex === -1 ? destination.length : anchorIndex + (insertAfter ? 1 : 0);
+        destination.splice(insertIndex, 0, ...moved);
+        if (parent) {
+            parent.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+        }
+        return scopes;
+    }
+
+    public getSortMode(node: ExplorerNode): GroupSortMode {
+        return node.sortMode ?? 'inherit';
+    }
+
+    public setSortMode(node: ExplorerNode, mode: GroupSortMode): void {
+        if (node.type !== 'group' && node.type !== 'folder-ref') {
+            return;
+        }
+        if (node.type === 'folder-ref' && mode === 'manual') {
+            return;
+        }
+        if (this.getSortMode(node) === mode) {
+            return;
+        }
+
+        this.recordHistory();
+        node.sortMode = mode === 'inherit' ? undefined : mode;
+        // 並び順が変わるのはこのノードの配下だけなので、その部分木だけを並べ直して更新する
+        const { compareFns, compareFn } = this.buildComparators();
+        this.sortNodesRecursive(node.children ?? [], this.getChildCompareFn(node, compareFns, compareFn), compareFns);
+        this.saveAndRefresh([node]);
+    }
+
+    // --- 切り取り / コピー / 貼り付け ---
+
+    public copyNodes(nodes: readonly ExplorerNode[], cut = false): number {
+        const targets = nodes.filter(node => !node.transientKind && node.type !== 'live-section');
+        this.clipboard = targets.length ? { nodes: targets, cut } : undefined;
+        vscode.commands.executeCommand('setContext', CONTEXT_KEY_CAN_PASTE, Boolean(this.clipboard));
+        return targets.length;
+    }
+
+    /**
+     * クリップボードの内容を target に貼り付ける。
+     * folder-ref 配下への貼り付けは実ファイルのコピー・移動（同名は "copy" を付けて両方を保持）、
+     * 通常のグループへの貼り付けは参照の作成（切り取りの場合は移動）として扱う。
+     */
+    public async paste(target: ExplorerNode | undefined): Promise<void> {
+        const clipboard = this.clipboard;
+        if (!clipboard) {
+            return;
+        }
+        // 切り取った内容は貼り付けが済んでから消す（貼り付けられない場所を選んだ場合は残す）
+        const clearCut = () => {
+            if (clipboard.cut && this.clipboard === clipboard) {
+                this.copyNodes([]);
             }
-            isChanged = true;
+        };
+
+        const targetDir = target ? this.resolveDropDirectory(target) : undefined;
+        if (targetDir) {
+            await this.transferFiles(this.collectTransferPaths(clipboard.nodes), targetDir, {
+                operation: clipboard.cut ? 'move' : 'copy',
+                autoRename: true,
+            });
+            clearCut();
+            return;
+        }
+        if (target && (target.type === 'folder-ref' || this.isChildOfFolderRef(target))) {
+            return;
+        }
+        if (target && (this.isDynamicGroup(target) || target.dynamicChild)) {
+            return;
         }
 
-        if (isChanged) this.saveAndRefresh();
+        // 実ファイル由来のノード（folder-ref 配下・動的グループの子）は切り取りでも参照の作成になる
+        const isRealEntry = (node: ExplorerNode) => Boolean(node.dynamicChild) || this.isChildOfFolderRef(node);
+        // 複製した folder-ref が読み込み前の状態で残らないよう、配下を読み込んでから複製する
+        await this.loadSubtrees(clipboard.nodes.filter(node => !clipboard.cut && !isRealEntry(node)));
+        const copies = clipboard.nodes
+            .filter(node => !clipboard.cut || isRealEntry(node))
+            .map(node => isRealEntry(node) ? this.createReferenceNode(node) : this.cloneNodes([node])[0])
+            .filter((node): node is ExplorerNode => node !== undefined);
+
+        // 切り取ったノードの移動と参照の作成を、まとめて1回の操作として履歴に記録する
+        const snapshot = this.captureSnapshot();
+        const movable = clipboard.cut ? clipboard.nodes.filter(node => !isRealEntry(node)) : [];
+        const scopes = movable.length ? this.relocateNodes(movable, target) ?? [] : [];
+
+        if (copies.length) {
+            const anchor = target && !this.isGroupLike(target) ? target : undefined;
+            const parent = anchor ? this.getParent(anchor) : target;
+            const destination = parent ? (parent.children ??= []) : this.data;
+            const anchorIndex = anchor ? destination.indexOf(anchor) : -1;
+
+            destination.splice(anchorIndex === -1 ? destination.length : anchorIndex + 1, 0, ...copies);
+            if (parent) {
+                parent.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+            }
+            scopes.push(parent);
+        }
+        if (scopes.length === 0) {
+            return;
+        }
+
+        this.recordHistory(snapshot);
+        this.saveAndRefresh(scopes);
+        this.restoreWatchers(copies);
+        clearCut();
+    }
+
+    // 実ファイル由来のノードを指す file-ref / folder-ref を作る
+    private createReferenceNode(node: ExplorerNode): ExplorerNode | undefined {
+        const fsPath = this.resolveFsPath(node);
+        if (!fsPath || !fs.existsSync(fsPath)) {
+            return undefined;
+        }
+        return fs.statSync(fsPath).isDirectory()
+            ? this.createFolderRefNode(path.basename(fsPath), fsPath)
+            : this.createFileNode(path.basename(fsPath), fsPath);
     }
 
     public renameNode(node: ExplorerNode, newName: string) {
+        this.recordHistory();
         node.label = newName;
-        this.saveAndRefresh();
+        this.saveAndRefresh([this.getParent(node)]);
     }
 
     public collapseRecursive(node?: ExplorerNode) {
@@ -1350,9 +6353,13 @@ class CustomTreeDataProvider implements
     }
 
     private applyCollapsibleState(node: ExplorerNode | undefined, state: vscode.TreeItemCollapsibleState) {
-        const targets = node ? [node] : this.data;
+        const targets = node ? [node] : [...this.liveSections, ...this.data];
         targets.forEach(t => this.setCollapsibleStateRecursive(t, state));
-        this.context.workspaceState.update(STORAGE_KEY, this.data);
+        // ID を振り直すため、グループの URI をインデックスし直す
+        if (!node || !this.isAttached(node) || !this.updateScopes([this.getParent(node)])) {
+            this.rebuildIndex();
+        }
+        this.persistLayouts();
 
         if (node) {
             this.refreshParentOrRoot(node);
@@ -1365,6 +6372,11 @@ class CustomTreeDataProvider implements
         if (!this.isGroupLike(node)) return;
         node.collapsibleState = state;
         node.id = this.generateId();
+        // まだ読み込んでいない配下のディレクトリも閉じた状態に戻す
+        if (node.type === 'folder-ref' && state === vscode.TreeItemCollapsibleState.Collapsed) {
+            node.expandedDirs = undefined;
+        }
+        this.recordDirectoryState(node, state);
         node.children?.forEach(child => this.setCollapsibleStateRecursive(child, state));
     }
 
@@ -1373,18 +6385,415 @@ class CustomTreeDataProvider implements
         this._onDidChangeTreeData.fire(parent ?? undefined);
     }
 
+    // --- 元に戻す / やり直し ---
+
+    // folder-ref や動的グループの子は復元時に再スキャンするため履歴には含めない
+    private captureSnapshot(): string {
+        const strip = (nodes: ExplorerNode[]): ExplorerNode[] => nodes.map(node => ({
+            ...node,
+            cachedTreePath: undefined,
+            children: node.children && (this.hasRuntimeChildren(node) ? [] : strip(node.children)),
+        }));
+        return JSON.stringify(strip(this.data));
+    }
+
+    private recordHistory(snapshot = this.captureSnapshot()): void {
+        this.undoStack.push(snapshot);
+        if (this.undoStack.length > HISTORY_LIMIT) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+        this.updateHistoryContextKeys();
+    }
+
+    public clearHistory(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.updateHistoryContextKeys();
+    }
+
+    /** 最後に記録した履歴を表す目印。後から元に戻すときに、その後の操作がないことを確かめる */
+    public getHistoryToken(): string | undefined {
+        return this.undoStack[this.undoStack.length - 1];
+    }
+
+    /** token を取得した後に履歴が変わっていなければ元に戻す */
+    public undoIfLatest(token: string | undefined): boolean {
+        if (token === undefined || this.getHistoryToken() !== token) {
+            return false;
+        }
+        return this.undo();
+    }
+
+    public undo(): boolean {
+        const snapshot = this.undoStack.pop();
+        if (snapshot === undefined) {
+            return false;
+        }
+        this.redoStack.push(this.captureSnapshot());
+        this.restoreSnapshot(snapshot);
+        return true;
+    }
+
+    public redo(): boolean {
+        const snapshot = this.redoStack.pop();
+        if (snapshot === undefined) {
+            return false;
+        }
+        this.undoStack.push(this.captureSnapshot());
+        this.restoreSnapshot(snapshot);
+        return true;
+    }
+
+    /** ツリーを丸ごと差し替え、ウォッチャーを張り直して folder-ref と動的グループを再構築する */
+    private restoreSnapshot(snapshot: string): void {
+        this.cancelInlineCreation();
+        this.cancelInlineRename();
+        this.disposeAllWatchers();
+
+        this.data = JSON.parse(snapshot) as ExplorerNode[];
+        this.layouts.set(this.activeLayout, this.data);
+        this.resolveWorkspaceLocations(this.data);
+
+        this.saveAndRefresh();
+        this.restoreWatchers(this.data);
+        this.updateHistoryContextKeys();
+    }
+
+    private updateHistoryContextKeys(): void {
+        vscode.commands.executeCommand('setContext', CONTEXT_KEY_CAN_UNDO, this.undoStack.length > 0);
+        vscode.commands.executeCommand('setContext', CONTEXT_KEY_CAN_REDO, this.redoStack.length > 0);
+    }
+
     // --- 永続化 ---
 
-    public saveAndRefresh() {
-        this.saveData();
+    /**
+     * scopes には子の増減・並び・名前が変わった階層（undefined はルート）を渡す。
+     * 省略した場合はツリー全体を並べ替えて再描画する。
+     */
+    public saveAndRefresh(scopes?: readonly (ExplorerNode | undefined)[]) {
+        const isIncremental = this.saveData(scopes);
         this.updateContextKey();
-        this._onDidChangeTreeData.fire();
+        // ルートを含む場合とフィルター中（先祖の表示・非表示が変わり得る）は全体を再描画する
+        const nodes = scopes?.filter((scope): scope is ExplorerNode => !!scope) ?? [];
+        const isPartial = isIncremental && nodes.length === scopes?.length && !this.filterQuery;
+        this._onDidChangeTreeData.fire(isPartial ? Array.from(new Set(nodes)) : undefined);
     }
 
-    private saveData() {
-        this.sortNodes(this.data);
-        this.rebuildIndex();
-        this.context.workspaceState.update(STORAGE_KEY, this.data);
+    /** 指定した階層だけを更新できた場合は true、ツリー全体を更新した場合は false を返す */
+    private saveData(scopes?: readonly (ExplorerNode | undefined)[]): boolean {
+        const changed = scopes && this.updateScopes(scopes);
+        if (changed) {
+            // 階層そのものの参照先（query-group の検索範囲など）が変わっている場合もある
+            scopes.forEach(scope => scope && this.updateWorkspaceLocation(scope));
+            this.updateWorkspaceLocations(changed);
+        } else {
+            this.updateWorkspaceLocations(this.data);
+            this.sortNodes(this.data);
+            this.rebuildIndex();
+        }
+        this.persistLayouts();
+        this.definitionFile.write(this.layouts);
+        // 階層だけを更新した場合は、付け直したノードの参照先だけを確かめる
+        this.scheduleMissingCheck(changed ? { nodes: this.collectMissingCheckTargets(changed) } : undefined);
+        return !!changed;
+    }
+
+    private persistLayouts() {
+        this.layouts.set(this.activeLayout, this.data);
+        this.layoutStorage.save(this.layouts, this.activeLayout);
+    }
+
+    // --- レイアウト管理 ---
+
+    public getLayoutNames(): string[] {
+        return Array.from(this.layouts.keys());
+    }
+
+    public getActiveLayout(): string {
+        return this.activeLayout;
+    }
+
+    public switchLayout(name: string): void {
+        if (name === this.activeLayout || !this.layouts.has(name)) {
+            return;
+        }
+        this.activateLayout(name);
+    }
+
+    /** 空のレイアウト、または sourceName を複製したレイアウトを作成して切り替える */
+    public createLayout(name: string, sourceName?: string): boolean {
+        if (!name || this.layouts.has(name)) {
+            return false;
+        }
+        const source = sourceName ? this.layouts.get(sourceName) : undefined;
+        this.layouts.set(name, source ? this.cloneNodes(source) : []);
+        this.activateLayout(name);
+        return true;
+    }
+
+    public renameLayout(oldName: string, newName: string): boolean {
+        if (!newName || !this.layouts.has(oldName) || this.layouts.has(newName)) {
+            return false;
+        }
+
+        // Mapの挿入順（表示順）を保ったまま名前だけを差し替える
+        this.layouts = new Map(Array.from(this.layouts, ([name, nodes]) =>
+            [name === oldName ? newName : name, nodes] as [string, ExplorerNode[]]));
+        if (this.activeLayout === oldName) {
+            this.activeLayout = newName;
+        }
+
+        this.saveAndRefresh();
+        this._onDidChangeLayout.fire(this.activeLayout);
+        return true;
+    }
+
+    public deleteLayout(name: string): boolean {
+        if (!this.layouts.has(name) || this.layouts.size <= 1) {
+            return false;
+        }
+
+        this.layouts.delete(name);
+        if (this.activeLayout === name) {
+            this.activateLayout(this.getLayoutNames()[0], false);
+        } else {
+            this.saveAndRefresh();
+        }
+        return true;
+    }
+
+    private activateLayout(name: string, keepCurrent = true): void {
+        this.cancelInlineCreation();
+        this.cancelInlineRename();
+        this.disposeAllWatchers();
+        this.clearHistory();
+
+        if (keepCurrent) {
+            this.layouts.set(this.activeLayout, this.data);
+        }
+        this.activeLayout = name;
+        this.data = this.layouts.get(name) ?? [];
+
+        this.saveAndRefresh();
+        this.restoreWatchers(this.data);
+        this._onDidChangeLayout.fire(name);
+    }
+
+    private cloneNodes(nodes: ExplorerNode[]): ExplorerNode[] {
+        return nodes.map(node => {
+            const { cachedTreePath: _cachedTreePath, transientKind: _transientKind, ...rest } = node;
+            return {
+                ...rest,
+                id: this.generateId(),
+                children: node.children ? this.cloneNodes(node.children) : undefined,
+            };
+        });
+    }
+
+    // --- 共有定義ファイル ---
+
+    public createDefinitionFile(): string | undefined {
+        const fsPath = this.definitionFile.fsPath;
+        if (!fsPath) {
+            return undefined;
+        }
+        this.layouts.forEach(nodes => this.updateWorkspaceLocations(nodes));
+        this.definitionFile.write(this.layouts, true);
+        return fsPath;
+    }
+
+    // --- エクスポート / インポート ---
+
+    /** ツリー全体または指定ノードを、ワークスペース相対パスの JSON 文書に変換する */
+    public exportJson(node?: ExplorerNode): string {
+        const nodes = node ? [node] : this.data;
+        this.updateWorkspaceLocations(nodes);
+        const definition: SharedDefinition = {
+            version: DEFINITION_FILE_VERSION,
+            nodes: this.definitionFile.toSharedNodes(nodes),
+        };
+        return JSON.stringify(definition, null, 2) + '\n';
+    }
+
+    /**
+     * ツリー全体または指定ノードを入れ子の箇条書きに変換する。
+     * リンクは baseDir からの相対パスで出力する（folder-ref は未読み込みの配下も読み込み、動的グループは現在の子を含める）。
+     */
+    public async exportMarkdown(baseDir: string, node?: ExplorerNode): Promise<string> {
+        const escapeText = (text: string) => text.replace(/([\\`*_[\]])/g, '\\$1');
+        const toLink = (fsPath: string) => path.relative(baseDir, fsPath)
+            .split(path.sep).join('/')
+            .replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+
+        await this.loadSubtrees(node ? [node] : this.data);
+        const lines = [`# ${escapeText(node?.label ?? this.activeLayout)}`, ''];
+        const append = (nodes: ExplorerNode[], depth: number) => {
+            const indent = '  '.repeat(depth);
+            for (const child of nodes) {
+                const fsPath = this.resolveFsPath(child);
+                if (child.type === 'file-ref' && fsPath) {
+                    lines.push(`${indent}- [${escapeText(this.getDisplayLabel(child))}](${toLink(fsPath)})`);
+                } else if (this.isRangeRef(child) && fsPath && child.range) {
+                    const { startLine, endLine } = child.range;
+                    const anchor = startLine === endLine ? `#L${startLine + 1}` : `#L${startLine + 1}-L${endLine + 1}`;
+                    lines.push(`${indent}- [${escapeText(this.getDisplayLabel(child))}](${toLink(fsPath)}${anchor})`);
+                } else if (child.type === 'folder-ref' && fsPath) {
+                    lines.push(`${indent}- [${escapeText(this.getDisplayLabel(child))}/](${toLink(fsPath)})`);
+                } else if (child.type === 'action' && child.action?.kind === 'url') {
+                    const { target } = child.action;
+                    const url = /^[a-z][\w+.-]*:/i.test(target) && !path.isAbsolute(target) ? target : toLink(this.resolveActionPath(target));
+                    lines.push(`${indent}- [${escapeText(this.getDisplayLabel(child))}](${url})`);
+                } else if (child.type === 'action') {
+                    lines.push(`${indent}- ${escapeText(this.getDisplayLabel(child))}`);
+                } else {
+                    lines.push(`${indent}- **${escapeText(this.getDisplayLabel(child))}**`);
+                }
+                // メモは項目の下に引用として続ける
+                if (child.note) {
+                    lines.push(...child.note.split('\n').map(line => `${indent}  > ${line}`.trimEnd()));
+                }
+                if (child.children?.length) {
+                    append(child.children, depth + 1);
+                }
+            }
+        };
+        append(node ? node.children ?? [] : this.data, 0);
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * エクスポートした JSON 文書（共有定義ファイルも可）を読み込む。
+     * target が指定された場合はそのグループ、未指定ならルートに追加し、replace の場合はツリーを置き換える。
+     * 取り込んだノードのうちパスが存在しないものを返す。
+     */
+    public importJson(content: string, target: ExplorerNode | undefined, replace: boolean): { count: number; missing: string[] } {
+        const definition = JSON.parse(content) as SharedDefinition;
+        const sharedNodes = Array.isArray(definition?.nodes) ? definition.nodes
+            : Array.isArray(definition?.layouts)
+                ? (definition.layouts.find(layout => layout?.name === this.activeLayout) ?? definition.layouts[0])?.nodes
+                : undefined;
+        if (!Array.isArray(sharedNodes)) {
+            throw new Error('"nodes" 配列がありません。');
+        }
+
+        const nodes = this.definitionFile.fromSharedNodes(sharedNodes, () => this.generateId());
+        if (nodes.length === 0) {
+            throw new Error('取り込める項目がありません。');
+        }
+
+        this.cancelInlineCreation();
+        this.cancelInlineRename();
+        this.recordHistory();
+        if (replace) {
+            this.disposeAllWatchers();
+            this.data = nodes;
+            this.layouts.set(this.activeLayout, this.data);
+        } else if (target && target.type === 'group') {
+            (target.children ??= []).push(...nodes);
+            target.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+        } else {
+            this.data.push(...nodes);
+        }
+        this.resolveWorkspaceLocations(nodes);
+
+        const missing: string[] = [];
+        this.forEachNode(nodes, node => {
+            const fsPath = this.isReferenceNode(node) ? this.getNodeFsPath(node) : undefined;
+            if (fsPath && !fs.existsSync(fsPath)) {
+                missing.push(node.relativePath ?? fsPath);
+            }
+        });
+
+        this.saveAndRefresh();
+        this.restoreWatchers(nodes);
+        return { count: nodes.length, missing };
+    }
+
+    /** インポート先などに選べる通常グループを、ツリー上のパス (cachedTreePath) 付きで列挙する */
+    public getGroupChoices(): { node: ExplorerNode; path: string }[] {
+        const choices: { node: ExplorerNode; path: string }[] = [];
+        const collect = (nodes: ExplorerNode[]) => {
+            for (const node of nodes) {
+                if (node.type !== 'group') {
+                    continue;
+                }
+                choices.push({ node, path: node.cachedTreePath ?? `/${node.label}` });
+                if (node.children) {
+                    collect(node.children);
+                }
+            }
+        };
+        collect(this.data);
+        return choices;
+    }
+
+    /** 設定で定義ファイルのパスが変わった場合に監視をやり直し、存在すれば読み込む */
+    public resetDefinitionFile(): void {
+        this.definitionFile.reset();
+        this.reloadFromDefinitionFile();
+    }
+
+    /** ディスク上の定義ファイル（git pull 等で更新されたもの）でツリーを置き換える */
+    private reloadFromDefinitionFile(): void {
+        const layouts = this.definitionFile.read(() => this.generateId());
+        if (!layouts) {
+            return;
+        }
+
+        this.cancelInlineCreation();
+        this.cancelInlineRename();
+        this.disposeAllWatchers();
+        this.clearHistory();
+        this.layouts.set(this.activeLayout, this.data);
+        this.applySharedLayouts(layouts);
+        this.layouts.forEach(nodes => this.resolveWorkspaceLocations(nodes));
+        this.saveAndRefresh();
+        this.restoreWatchers(this.data);
+        this._onDidChangeLayout.fire(this.activeLayout);
+    }
+
+    private applySharedLayouts(shared: LayoutMap): void {
+        for (const [name, nodes] of shared) {
+            this.restoreCollapsibleStates(nodes, this.layouts.get(name) ?? []);
+            this.sortNodes(nodes);
+        }
+        this.layouts = shared;
+        if (!shared.has(this.activeLayout)) {
+            this.activeLayout = this.getLayoutNames()[0];
+        }
+        this.data = shared.get(this.activeLayout) ?? [];
+        this.definitionFile.markSynced(shared);
+    }
+
+    /** 定義ファイルは開閉状態を持たないため、ツリー上のパスが一致するノードから引き継ぐ */
+    private restoreCollapsibleStates(nodes: ExplorerNode[], previous: ExplorerNode[]): ExplorerNode[] {
+        const states = new Map<string, vscode.TreeItemCollapsibleState | undefined>();
+        const collect = (items: ExplorerNode[], parentPath: string) => {
+            for (const item of items) {
+                const treePath = `${parentPath}/${item.label}`;
+                states.set(treePath, item.collapsibleState);
+                if (item.children) {
+                    collect(item.children, treePath);
+                }
+            }
+        };
+        const apply = (items: ExplorerNode[], parentPath: string) => {
+            for (const item of items) {
+                const treePath = `${parentPath}/${item.label}`;
+                const state = states.get(treePath);
+                if (state !== undefined && this.isGroupLike(item)) {
+                    item.collapsibleState = state;
+                }
+                if (item.children) {
+                    apply(item.children, treePath);
+                }
+            }
+        };
+
+        collect(previous, '');
+        apply(nodes, '');
+        return nodes;
     }
 
     // ---------------------------------------------------------------------------
@@ -1403,29 +6812,68 @@ class CustomTreeDataProvider implements
      *   modified        : 更新日時降順（groupは先頭固定、取得失敗時は名前順にフォールバック）
      *   foldersNestsFiles: ツリー構造変更を伴うため非対応。defaultと同じ挙動にフォールバック
      *
-     * group/folder-ref の優先度:
+     * グループに sortMode が設定されている場合、その配下は sortMode の順序に従う。
+     * 'manual' の配下は並べ替えず、配列の順序（ドラッグ＆ドロップで並べた順）をそのまま保持する。
+     *
+     * group/folder-ref の優先度 (query-group / git-group は folder-ref と同順位):
      *   フォルダ優先系  : group(0) > folder-ref(1) > file-ref(2)
      *   ファイル優先系  : file-ref(0) > folder-ref(1) > group(2)
      *   mixed          : 型による優先度なし（名前のみで比較）
      */
     private sortNodes(nodes: ExplorerNode[]): void {
+        const { compareFn, compareFns } = this.buildComparators();
+        this.sortNodesRecursive(nodes, compareFn, compareFns);
+    }
+
+    private buildComparators(): {
+        compareFn: CompareFn;
+        compareFns: Record<Exclude<GroupSortMode, 'inherit'>, CompareFn | undefined>;
+    } {
         const explorerConfig = vscode.workspace.getConfiguration('explorer');
         const sortOrder = explorerConfig.get<string>('sortOrder') ?? 'default';
         const lexOption = explorerConfig.get<string>('sortOrderLexicographicOptions') ?? 'default';
 
         const collator = this.buildCollator(lexOption);
-        const compareFn = this.buildCompareFn(sortOrder, collator);
+        return {
+            compareFn: this.buildCompareFn(sortOrder, collator),
+            compareFns: {
+                name: this.buildCompareFn('default', collator),
+                type: this.buildCompareFn('type', collator),
+                modified: this.buildCompareFn('modified', collator),
+                manual: undefined,
+            },
+        };
+    }
 
-        this.sortNodesRecursive(nodes, compareFn);
+    /** 指定した階層（undefined はルート）の子に適用する並べ替え。sortMode は最も近い先祖の設定を継承する */
+    private getChildCompareFn(
+        scope: ExplorerNode | undefined,
+        compareFns: Record<Exclude<GroupSortMode, 'inherit'>, CompareFn | undefined>,
+        compareFn: CompareFn
+    ): CompareFn | undefined {
+        for (let current = scope; current; current = this.getParent(current)) {
+            if (current.sortMode && current.sortMode !== 'inherit') {
+                return compareFns[current.sortMode];
+            }
+        }
+        return compareFn;
     }
 
+    /** compareFn が undefined の階層は手動並べ替えとして順序を変えない */
     private sortNodesRecursive(
         nodes: ExplorerNode[],
-        compareFn: (a: ExplorerNode, b: ExplorerNode) => number
+        compareFn: CompareFn | undefined,
+        compareFns: Record<Exclude<GroupSortMode, 'inherit'>, CompareFn | undefined>
     ): void {
-        nodes.sort(compareFn);
+        if (compareFn) {
+            nodes.sort(compareFn);
+        }
         nodes.forEach(node => {
-            if (node.children?.length) this.sortNodesRecursive(node.children, compareFn);
+            if (!node.children?.length) {
+                return;
+            }
+            const childCompareFn = node.sortMode && node.sortMode !== 'inherit' ? compareFns[node.sortMode] : compareFn;
+            this.sortNodesRecursive(node.children, childCompareFn, compareFns);
         });
     }
 
@@ -1458,7 +6906,7 @@ class CustomTreeDataProvider implements
     private buildCompareFn(
         sortOrder: string,
         collator: Intl.Collator
-    ): (a: ExplorerNode, b: ExplorerNode) => number {
+    ): CompareFn {
         switch (sortOrder) {
             case 'mixed':
                 // 型による優先度なし: 名前のみで比較
@@ -1523,14 +6971,18 @@ class CustomTreeDataProvider implements
     /** default / foldersNestsFiles: group優先、次にfolder-ref、最後にfile-ref */
     private getDefaultPriority(node: ExplorerNode): number {
         if (node.type === 'group') return 0;
-        if (node.type === 'folder-ref') return 1;
+        if (node.type === 'folder-ref' || this.isDynamicGroup(node)) {
+            return 1;
+        }
         return 2; // file-ref
     }
 
     /** filesFirst: file-ref優先、次にfolder-ref、最後にgroup */
     private getFilesFirstPriority(node: ExplorerNode): number {
         if (node.type === 'file-ref') return 0;
-        if (node.type === 'folder-ref') return 1;
+        if (node.type === 'folder-ref' || this.isDynamicGroup(node)) {
+            return 1;
+        }
         return 2; // group
     }
 
@@ -1552,31 +7004,48 @@ class CustomTreeDataProvider implements
         }
     }
 
-    private migrateData(nodes: ExplorerNode[]): void {
-        for (const node of nodes) {
-            if ((node.type as string) === 'file') node.type = 'file-ref';
-            if ((node.type as string) === 'linked-group') node.type = 'folder-ref';
-            if (node.children) this.migrateData(node.children);
+    private loadData() {
+        const stored = this.layoutStorage.load(() => this.generateId());
+        this.layouts = stored?.layouts ?? new Map([[DEFAULT_LAYOUT_NAME, []]]);
+        this.activeLayout = stored?.active ?? DEFAULT_LAYOUT_NAME;
+        this.data = this.layouts.get(this.activeLayout) ?? [];
+
+        const shared = this.definitionFile.read(() => this.generateId());
+        if (shared) {
+            this.applySharedLayouts(shared);
         }
-    }
 
-    private loadData() {
-        this.data = this.context.workspaceState.get<ExplorerNode[]>(STORAGE_KEY) || [];
-        this.migrateData(this.data);
-        this.context.workspaceState.update(STORAGE_KEY, this.data);
+        for (const nodes of this.layouts.values()) {
+            this.resolveWorkspaceLocations(nodes);
+            this.updateWorkspaceLocations(nodes);
+        }
+
+        this.persistLayouts();
         this.rebuildIndex();
         this.updateContextKey();
+        this.restoreWatchers(this.data);
+        // 参照切れの状態は保存しないため、読み込み後に確かめ直す
+        this.scheduleMissingCheck();
+    }
 
-        const restoreWatchers = (nodes: ExplorerNode[]) => {
-            for (const node of nodes) {
-                if (node.type === 'folder-ref') {
-                    this.syncFolderRef(node);
-                    this.setupWatcher(node);
-                }
-                if (node.children) restoreWatchers(node.children);
+    private restoreWatchers(nodes: ExplorerNode[]) {
+        for (const node of nodes) {
+            if (node.type === 'symbol-ref' && node.filePath) {
+                this.scheduleSymbolResolve(node.filePath);
             }
-        };
-        restoreWatchers(this.data);
+            if (node.type === 'folder-ref') {
+                this.syncFolderRef(node);
+                this.setupWatcher(node);
+            }
+            if (this.isDynamicGroup(node)) {
+                void this.refreshDynamicGroup(node);
+                this.setupWatcher(node);
+                continue;
+            }
+            if (node.children) {
+                this.restoreWatchers(node.children);
+            }
+        }
     }
 
     private generateId(): string {
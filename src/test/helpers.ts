@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+
+// workspaceState の代わりにメモリ上へ保存する
+export class MemoryMemento implements vscode.Memento {
+    private values = new Map<string, unknown>();
+
+    constructor(initial: Record<string, unknown> = {}) {
+        Object.entries(initial).forEach(([key, value]) => this.values.set(key, value));
+    }
+
+    keys(): readonly string[] {
+        return Array.from(this.values.keys());
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+    }
+}
+
+// CustomTreeDataProvider が使うのは workspaceState のみ
+export const createContext = (): vscode.ExtensionContext =>
+    ({ workspaceState: new MemoryMemento(), subscriptions: [] }) as unknown as vscode.ExtensionContext;
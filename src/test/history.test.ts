@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CustomTreeDataProvider } from '../extension';
+import { createContext } from './helpers';
+
+suite('元に戻す / やり直し', () => {
+    let provider: CustomTreeDataProvider;
+
+    setup(() => {
+        provider = new CustomTreeDataProvider(createContext());
+    });
+
+    teardown(() => {
+        provider.dispose();
+    });
+
+    const getRootTypes = async () => (await provider.getChildren()).map(node => node.type);
+
+    test('Git グループの追加を元に戻せる', async () => {
+        provider.addGitGroup({ kind: 'changes' });
+        assert.deepStrictEqual(await getRootTypes(), ['git-group']);
+
+        assert.strictEqual(provider.undo(), true);
+        assert.deepStrictEqual(await getRootTypes(), []);
+
+        assert.strictEqual(provider.redo(), true);
+        assert.deepStrictEqual(await getRootTypes(), ['git-group']);
+    });
+
+    test('取り除いた後に別の操作をした場合は、通知から元に戻さない', async () => {
+        const group = provider.addGroup('A');
+        provider.removeNodes([group]);
+        const token = provider.getHistoryToken();
+
+        provider.addGroup('B');
+        assert.strictEqual(provider.undoIfLatest(token), false);
+        assert.deepStrictEqual((await provider.getChildren()).map(node => node.label), ['B']);
+
+        assert.strictEqual(provider.undo(), true);
+        assert.strictEqual(provider.undoIfLatest(token), true);
+        assert.deepStrictEqual((await provider.getChildren()).map(node => node.label), ['A']);
+    });
+
+    test('切り取りと参照の作成が混ざった貼り付けは1回の操作として元に戻せる', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'custom-explorer-paste-'));
+        fs.writeFileSync(path.join(dir, 'real.ts'), '');
+        try {
+            const source = provider.addGroup('source');
+            const target = provider.addGroup('target');
+            provider.addFolderRef(dir);
+            const folder = (await provider.getChildren()).find(node => node.type === 'folder-ref')!;
+            const [realFile] = await provider.getChildren(folder);
+            provider.addGitGroup({ kind: 'changes' });
+            const gitGroup = (await provider.getChildren()).find(node => node.type === 'git-group')!;
+
+            // 貼り付けられない場所では切り取った内容を残す
+            provider.copyNodes([source, realFile], true);
+            await provider.paste(gitGroup);
+            assert.deepStrictEqual((await provider.getChildren(target)).map(node => node.label), []);
+
+            await provider.paste(target);
+            assert.deepStrictEqual((await provider.getChildren(target)).map(node => node.label), ['source', 'real.ts']);
+
+            assert.strictEqual(provider.undo(), true);
+            const roots = await provider.getChildren();
+            const restoredTarget = roots.find(node => node.label === 'target')!;
+            assert.deepStrictEqual((await provider.getChildren(restoredTarget)).map(node => node.label), []);
+            assert.ok(roots.some(node => node.label === 'source'));
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
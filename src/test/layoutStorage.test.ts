@@ -0,0 +1,178 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LayoutStorage } from '../extension';
+import { MemoryMemento } from './helpers';
+
+const LEGACY_KEY = 'customExplorerData';
+const LAYOUTS_KEY = 'customExplorerLayouts';
+const BACKUP_KEY = 'customExplorerLayoutsBackup';
+
+const { Collapsed, Expanded } = vscode.TreeItemCollapsibleState;
+
+const load = (state: vscode.Memento) => {
+    let nextId = 0;
+    return new LayoutStorage(state).load(() => `generated-${nextId++}`);
+};
+
+suite('LayoutStorage (保存形式の移行)', () => {
+    test('何も保存されていなければ undefined を返す', () => {
+        assert.strictEqual(load(new MemoryMemento()), undefined);
+    });
+
+    test('version 0: レイアウト導入前の単一ツリーを Default レイアウトに移行する', () => {
+        const state = new MemoryMemento({
+            [LEGACY_KEY]: [
+                { id: 'a', label: 'a.ts', type: 'file', filePath: '/work/a.ts' },
+                {
+                    id: 'b',
+                    label: 'lib',
+                    type: 'linked-group',
+                    linkedPath: '/work/lib',
+                    collapsibleState: Expanded,
+                    children: [
+                        { id: 'c', label: 'src', type: 'group', collapsibleState: Expanded, children: [
+                            { id: 'd', label: 'nested', type: 'group', collapsibleState: Expanded, children: [] },
+                        ] },
+                        { id: 'e', label: 'test', type: 'group', collapsibleState: Collapsed, children: [] },
+                        { id: 'f', label: 'index.ts', type: 'file', filePath: '/work/lib/index.ts' },
+                    ],
+                },
+            ],
+        });
+
+        const result = load(state);
+        assert.ok(result);
+        assert.strictEqual(result.active, 'Default');
+        assert.deepStrictEqual(Array.from(result.layouts.keys()), ['Default']);
+
+        const [file, folder] = result.layouts.get('Default')!;
+        assert.deepStrictEqual(file, { id: 'a', label: 'a.ts', type: 'file-ref', filePath: '/work/a.ts' });
+        assert.strictEqual(folder.type, 'folder-ref');
+        assert.strictEqual(folder.linkedPath, '/work/lib');
+        assert.deepStrictEqual(folder.expandedDirs, ['src', 'src/nested']);
+        assert.deepStrictEqual(folder.children, []);
+        assert.strictEqual(state.get(BACKUP_KEY), undefined);
+    });
+
+    test('version 1: 名前付きレイアウトから実行時のみの状態と folder-ref の子を取り除く', () => {
+        const state = new MemoryMemento({
+            [LAYOUTS_KEY]: {
+                active: 'B',
+                layouts: [
+                    { name: 'A', nodes: [] },
+                    {
+                        name: 'B',
+                        nodes: [{
+                            id: 'g',
+                            label: 'group',
+                            type: 'group',
+                            cachedTreePath: '/group',
+                            children: [
+                                { id: 'h', label: 'h.ts', type: 'file-ref', filePath: '/work/h.ts', missing: true, cachedTreePath: '/group/h.ts' },
+                                { id: 'i', label: 'lib', type: 'folder-ref', linkedPath: '/work/lib', children: [
+                                    { id: 'j', label: 'src', type: 'group', collapsibleState: Expanded, children: [] },
+                                ] },
+                            ],
+                        }],
+                    },
+                ],
+            },
+        });
+
+        const result = load(state);
+        assert.ok(result);
+        assert.strictEqual(result.active, 'B');
+        assert.deepStrictEqual(Array.from(result.layouts.keys()), ['A', 'B']);
+
+        const [group] = result.layouts.get('B')!;
+        const [file, folder] = group.children!;
+        assert.strictEqual(group.cachedTreePath, undefined);
+        assert.deepStrictEqual(file, { id: 'h', label: 'h.ts', type: 'file-ref', filePath: '/work/h.ts' });
+        assert.deepStrictEqual(folder.expandedDirs, ['src']);
+        assert.deepStrictEqual(folder.children, []);
+        assert.strictEqual(state.get(BACKUP_KEY), undefined);
+    });
+
+    test('version 2: 保存した内容をそのまま読み込める', () => {
+        const state = new MemoryMemento();
+        const nodes = [{
+            id: 'k',
+            label: 'group',
+            type: 'group' as const,
+            sortMode: 'name' as const,
+            children: [
+                { id: 'l', label: 'l.ts', type: 'location-ref' as const, filePath: '/work/l.ts', range: { startLine: 1, startCharacter: 0, endLine: 2, endCharacter: 0 } },
+                { id: 'm', label: 'lib', type: 'folder-ref' as const, linkedPath: '/work/lib', expandedDirs: ['src'], children: [] },
+            ],
+        }];
+        new LayoutStorage(state).save(new Map([['Default', nodes]]), 'Default');
+        assert.strictEqual(state.get<{ version: number }>(LAYOUTS_KEY)?.version, 2);
+
+        const result = load(state);
+        assert.ok(result);
+        assert.deepStrictEqual(result.layouts.get('Default'), nodes);
+        assert.strictEqual(state.get(BACKUP_KEY), undefined);
+    });
+
+    test('不正なノードだけを取り除き、元のデータをバックアップする', () => {
+        const stored = {
+            version: 2,
+            active: 'Default',
+            layouts: [{
+                name: 'Default',
+                nodes: [
+                    { id: 'n', label: 'n.ts', type: 'file-ref', filePath: '/work/n.ts' },
+                    { id: 'o', label: 'o.ts', type: 'unknown', filePath: '/work/o.ts' },
+                    { id: 'p', label: 42, type: 'file-ref', filePath: '/work/p.ts' },
+                    { id: 'q', label: 'q', type: 'group', children: 'broken' },
+                    { id: 'r', label: 'r.ts', type: 'file-ref' },
+                    { id: 's', label: 's.ts', type: 'file-ref', filePath: { path: '/work/s.ts' } },
+                    null,
+                ],
+            }],
+        };
+        const state = new MemoryMemento({ [LAYOUTS_KEY]: stored });
+
+        const result = load(state);
+        assert.ok(result);
+        assert.deepStrictEqual(result.layouts.get('Default')?.map(node => node.id), ['n']);
+
+        const backup = state.get<{ version: number; data: unknown }>(BACKUP_KEY);
+        assert.strictEqual(backup?.version, 2);
+        assert.deepStrictEqual(backup?.data, stored);
+    });
+
+    test('種類ごとの付加情報が壊れたノードを取り除く', () => {
+        const range = { startLine: 1, startCharacter: 0, endLine: 2, endCharacter: 0 };
+        const stored = {
+            version: 2,
+            active: 'Default',
+            layouts: [{
+                name: 'Default',
+                nodes: [
+                    { id: 't', label: 't.ts', type: 'location-ref', filePath: '/work/t.ts', range },
+                    { id: 'u', label: 'u.ts', type: 'location-ref', filePath: '/work/u.ts', range: { startLine: '1', startCharacter: 0, endLine: -2 } },
+                    { id: 'v', label: 'query', type: 'query-group', query: { include: ['**/*.ts'], exclude: [] } },
+                    { id: 'w', label: 'query', type: 'query-group', query: { include: '**/*.ts' } },
+                ],
+            }],
+        };
+        const state = new MemoryMemento({ [LAYOUTS_KEY]: stored });
+
+        const result = load(state);
+        assert.ok(result);
+        assert.deepStrictEqual(result.layouts.get('Default')?.map(node => node.id), ['t', 'v']);
+        assert.deepStrictEqual(result.layouts.get('Default')?.[0].range, range);
+        assert.deepStrictEqual(state.get<{ data: unknown }>(BACKUP_KEY)?.data, stored);
+    });
+
+    test('読み込めない保存データは空のツリーで開始し、バックアップする', () => {
+        const state = new MemoryMemento({ [LAYOUTS_KEY]: 'broken' });
+
+        const result = load(state);
+        assert.ok(result);
+        assert.deepStrictEqual(Array.from(result.layouts), [['Default', []]]);
+        assert.strictEqual(result.active, 'Default');
+        assert.deepStrictEqual(state.get<{ data: unknown }>(BACKUP_KEY)?.data, 'broken');
+    });
+});
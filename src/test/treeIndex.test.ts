@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CustomTreeDataProvider } from '../extension';
+import { createContext } from './helpers';
+
+const GROUP_COUNT = 200;
+const FILES_PER_GROUP = 150;
+const LOCATION_REFS_PER_GROUP = 10;
+
+const root = path.join(os.tmpdir(), 'custom-explorer-index-benchmark');
+const filePath = (group: number, file: number) => path.join(root, `group-${group}`, `file-${file}.ts`);
+
+// 数万件のノードを持つツリーをエクスポート形式の JSON として作る
+const createDefinition = (): string => JSON.stringify({
+    version: 1,
+    nodes: Array.from({ length: GROUP_COUNT }, (_, group) => ({
+        type: 'group',
+        label: `group-${group}`,
+        children: [
+            ...Array.from({ length: FILES_PER_GROUP }, (_, file) => ({ type: 'file-ref', path: filePath(group, file) })),
+            ...Array.from({ length: LOCATION_REFS_PER_GROUP }, (_, i) => ({
+                type: 'location-ref',
+                label: `location-${i}`,
+                path: filePath(group, 0),
+                range: { startLine: i, startCharacter: 0, endLine: i, endCharacter: 1 },
+            })),
+        ],
+    })),
+});
+
+const measure = (fn: () => void): number => {
+    const start = performance.now();
+    fn();
+    return performance.now() - start;
+};
+
+suite('ツリーのインデックス (ベンチマーク)', function () {
+    this.timeout(120000);
+
+    let provider: CustomTreeDataProvider;
+
+    suiteSetup(() => {
+        provider = new CustomTreeDataProvider(createContext());
+        const { count } = provider.importJson(createDefinition(), undefined, true);
+        assert.strictEqual(count, GROUP_COUNT);
+    });
+
+    suiteTeardown(() => {
+        provider.dispose();
+    });
+
+    test('実パスと親をツリーを走査せずに引ける', () => {
+        const elapsed = measure(() => {
+            for (let group = 0; group < GROUP_COUNT; group++) {
+                const node = provider.findNodeByPath(filePath(group, FILES_PER_GROUP - 1));
+                assert.ok(node);
+                assert.strictEqual(provider.getParent(node)?.label, `group-${group}`);
+            }
+        });
+        assert.ok(elapsed < 200, `${GROUP_COUNT} 件の検索に ${elapsed.toFixed(1)}ms かかりました`);
+    });
+
+    test('location-ref をファイルごとに引ける', () => {
+        const elapsed = measure(() => {
+            for (let i = 0; i < 10; i++) {
+                for (let group = 0; group < GROUP_COUNT; group++) {
+                    assert.strictEqual(provider.getLocationRefs(filePath(group, 0)).length, LOCATION_REFS_PER_GROUP);
+                }
+            }
+        });
+        assert.strictEqual(provider.getLocationRefs(filePath(0, 1)).length, 0);
+        assert.ok(elapsed < 200, `${GROUP_COUNT * 10} 件の検索に ${elapsed.toFixed(1)}ms かかりました`);
+    });
+
+    test('追加・削除は変更のあった階層だけを付け直す', () => {
+        const group = provider.getParent(provider.findNodeByPath(filePath(0, 0))!)!;
+        const added = path.join(root, 'group-0', 'added.ts');
+
+        const incremental = measure(() => provider.addFile(added, group));
+        const node = provider.findNodeByPath(added);
+        assert.ok(node);
+        assert.strictEqual(provider.getParent(node), group);
+
+        const full = measure(() => provider.saveAndRefresh());
+        assert.ok(incremental < full, `追加 ${incremental.toFixed(1)}ms / 全体の更新 ${full.toFixed(1)}ms`);
+
+        assert.strictEqual(provider.removeNodes([node]), 1);
+        assert.strictEqual(provider.findNodeByPath(added), undefined);
+        assert.strictEqual(provider.findNodeByPath(filePath(GROUP_COUNT - 1, 0))?.label, 'file-0.ts');
+    });
+
+    test('ファイルの名前変更に location-ref が追従する', () => {
+        const oldPath = filePath(1, 0);
+        const newPath = path.join(root, 'group-1', 'renamed.ts');
+        provider.handleFileRename([{ oldUri: vscode.Uri.file(oldPath), newUri: vscode.Uri.file(newPath) }]);
+
+        assert.strictEqual(provider.getLocationRefs(oldPath).length, 0);
+        assert.strictEqual(provider.getLocationRefs(newPath).length, LOCATION_REFS_PER_GROUP);
+    });
+});